@@ -0,0 +1,33 @@
+// Price alert evaluation and webhook delivery settings
+
+export const ALERTS_CONFIG = {
+  // Upper bound on stored alerts, so the evaluator stays within the rate limit
+  maxAlerts: 500,
+  // Per owner token, so one caller cannot fill the store
+  maxAlertsPerOwner: 20,
+  webhook: {
+    timeoutMs: 10_000,
+    maxAttempts: 5,
+    baseDelayMs: 2_000,
+    maxDelayMs: 60_000,
+  },
+};
+
+export const DEFAULT_ALERTS_POLL_INTERVAL_MS = 60_000;
+
+// Read lazily so values loaded by dotenv after module evaluation are picked up
+export const getAlertsConfig = () => {
+  const pollInterval = Number(process.env.ALERTS_POLL_INTERVAL_MS);
+
+  return {
+    enabled: process.env.ALERTS_ENABLED !== "false",
+    // Alerts are kept in memory only when set to "none"
+    file: process.env.ALERTS_FILE === "none" ? null : process.env.ALERTS_FILE || ".cache/alerts.json",
+    pollIntervalMs: Number.isFinite(pollInterval) && pollInterval >= 5_000 ? pollInterval : DEFAULT_ALERTS_POLL_INTERVAL_MS,
+    ...ALERTS_CONFIG,
+    webhook: {
+      ...ALERTS_CONFIG.webhook,
+      allowPrivateNetworks: process.env.ALERTS_ALLOW_PRIVATE_WEBHOOKS === "true",
+    },
+  };
+};
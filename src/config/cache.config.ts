@@ -0,0 +1,65 @@
+// Response cache settings for CoinGecko data
+
+export type CacheStoreType = "memory" | "file";
+
+export interface CacheTtlRule {
+  // Endpoint path; "*" matches a single path segment
+  endpoint: string;
+  ttlSeconds: number;
+}
+
+export const CACHE_TTLS: CacheTtlRule[] = [
+  { endpoint: "/simple/price", ttlSeconds: 30 },
+  { endpoint: "/simple/token_price/*", ttlSeconds: 30 },
+  { endpoint: "/search/trending", ttlSeconds: 300 },
+  { endpoint: "/coins/list/new", ttlSeconds: 3600 },
+  { endpoint: "/coins/*/contract/*", ttlSeconds: 60 },
+  { endpoint: "/coins/*/market_chart", ttlSeconds: 120 },
+  { endpoint: "/coins/*/market_chart/range", ttlSeconds: 120 },
+  { endpoint: "/coins/*/contract/*/market_chart", ttlSeconds: 120 },
+  { endpoint: "/coins/*/contract/*/market_chart/range", ttlSeconds: 120 },
+  { endpoint: "/coins/*/ohlc", ttlSeconds: 300 },
+  { endpoint: "/coins/markets", ttlSeconds: 60 },
+  { endpoint: "/coins/list", ttlSeconds: 86400 },
+  { endpoint: "/search", ttlSeconds: 300 },
+  { endpoint: "/global", ttlSeconds: 120 },
+  { endpoint: "/global/decentralized_finance_defi", ttlSeconds: 300 },
+  { endpoint: "/exchanges", ttlSeconds: 300 },
+  { endpoint: "/exchanges/*", ttlSeconds: 300 },
+  { endpoint: "/exchanges/*/tickers", ttlSeconds: 120 },
+  { endpoint: "/coins/*/tickers", ttlSeconds: 120 },
+  { endpoint: "/coins/categories", ttlSeconds: 300 },
+  { endpoint: "/coins/categories/list", ttlSeconds: 86400 },
+  { endpoint: "/nfts/list", ttlSeconds: 3600 },
+  { endpoint: "/nfts/*", ttlSeconds: 300 },
+  { endpoint: "/nfts/*/contract/*", ttlSeconds: 300 },
+  { endpoint: "/onchain/networks/*/tokens/*/pools", ttlSeconds: 60 },
+  { endpoint: "/onchain/networks/*/pools/*/ohlcv/*", ttlSeconds: 60 },
+  { endpoint: "/onchain/networks/trending_pools", ttlSeconds: 120 },
+  { endpoint: "/onchain/networks/*/trending_pools", ttlSeconds: 120 },
+  { endpoint: "/onchain/simple/networks/*/token_price/*", ttlSeconds: 30 },
+  { endpoint: "/coins/*", ttlSeconds: 120 },
+];
+
+export const DEFAULT_CACHE_TTL_SECONDS = 60;
+export const DEFAULT_CACHE_MAX_ENTRIES = 5000;
+// How often the memory store drops expired entries
+export const CACHE_SWEEP_INTERVAL_MS = 60_000;
+
+// Read lazily so values loaded by dotenv after module evaluation are picked up
+export const getCacheConfig = () => {
+  const defaultTtl = Number(process.env.CACHE_DEFAULT_TTL);
+  const maxEntries = Number(process.env.CACHE_MAX_ENTRIES);
+
+  return {
+    enabled: process.env.CACHE_ENABLED !== "false",
+    store: (process.env.CACHE_STORE === "file" ? "file" : "memory") as CacheStoreType,
+    fileDir: process.env.CACHE_DIR || ".cache/coingecko",
+    defaultTtlSeconds: Number.isFinite(defaultTtl) && defaultTtl >= 0 ? defaultTtl : DEFAULT_CACHE_TTL_SECONDS,
+    ttls: CACHE_TTLS,
+    memory: {
+      maxEntries: Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : DEFAULT_CACHE_MAX_ENTRIES,
+      sweepIntervalMs: CACHE_SWEEP_INTERVAL_MS,
+    },
+  };
+};
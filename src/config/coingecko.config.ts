@@ -0,0 +1,97 @@
+// CoinGecko API connection settings
+
+export type CoinGeckoPlan = "demo" | "pro" | "none";
+
+interface PlanDefaults {
+  baseUrl: string;
+  // Header carrying the API key; null for keyless public access
+  apiKeyHeader: string | null;
+  rateLimitPerMinute: number;
+}
+
+export const COINGECKO_PLANS: Record<CoinGeckoPlan, PlanDefaults> = {
+  demo: {
+    baseUrl: "https://api.coingecko.com/api/v3",
+    apiKeyHeader: "x-cg-demo-api-key",
+    rateLimitPerMinute: 30,
+  },
+  pro: {
+    baseUrl: "https://pro-api.coingecko.com/api/v3",
+    apiKeyHeader: "x-cg-pro-api-key",
+    rateLimitPerMinute: 500,
+  },
+  none: {
+    baseUrl: "https://api.coingecko.com/api/v3",
+    apiKeyHeader: null,
+    rateLimitPerMinute: 10,
+  },
+};
+
+export const COINGECKO_CONFIG = {
+  // Per-attempt request timeout
+  timeoutMs: 10_000,
+
+  // Retry policy for 429, 5xx and network failures
+  retry: {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8_000,
+    // Give up instead of waiting when Retry-After asks for longer than this
+    maxRetryAfterMs: 30_000,
+  },
+
+  // Client-side spacing of calls to the plan's rateLimitPerMinute; a request
+  // that would wait longer than retry.maxRetryAfterMs fails as rate limited
+  rateLimit: {
+    // Calls allowed back to back after an idle period, in seconds of budget
+    burstSeconds: 10,
+  },
+
+  // Concurrent /simple/price calls arriving within this window share one request
+  priceBatching: {
+    windowMs: 25,
+    maxIds: 100,
+  },
+};
+
+export interface CoinGeckoSettings extends PlanDefaults {
+  plan: CoinGeckoPlan;
+  apiKey: string | undefined;
+}
+
+const isPlan = (value: string | undefined): value is CoinGeckoPlan =>
+  value === "demo" || value === "pro" || value === "none";
+
+let warnedLegacyKey = false;
+
+const readApiKey = (): string | undefined => {
+  if (process.env.COINGECKO_API_KEY) return process.env.COINGECKO_API_KEY;
+
+  // Misspelled name used by earlier releases
+  if (process.env.COINGEKO_API_KEY) {
+    if (!warnedLegacyKey) {
+      console.warn("⚠️  COINGEKO_API_KEY is deprecated, rename it to COINGECKO_API_KEY");
+      warnedLegacyKey = true;
+    }
+    return process.env.COINGEKO_API_KEY;
+  }
+
+  return undefined;
+};
+
+// Read lazily so values loaded by dotenv after module evaluation are picked up
+export const getCoinGeckoSettings = (): CoinGeckoSettings => {
+  const apiKey = readApiKey();
+  const requested = process.env.COINGECKO_PLAN?.toLowerCase();
+  const plan: CoinGeckoPlan = isPlan(requested) ? requested : apiKey ? "demo" : "none";
+  const defaults = COINGECKO_PLANS[plan];
+  const rateLimit = Number(process.env.COINGECKO_RATE_LIMIT);
+
+  return {
+    plan,
+    apiKey: defaults.apiKeyHeader ? apiKey : undefined,
+    baseUrl: (process.env.COINGECKO_BASE_URL || defaults.baseUrl).replace(/\/+$/, ""),
+    apiKeyHeader: defaults.apiKeyHeader,
+    rateLimitPerMinute: Number.isFinite(rateLimit) && rateLimit > 0 ? rateLimit : defaults.rateLimitPerMinute,
+  };
+};
@@ -0,0 +1,27 @@
+// MCP transport session settings
+
+export const MCP_CONFIG = {
+  // Events kept per session for resuming streams with Last-Event-ID
+  maxEventsPerSession: 500,
+  sweepIntervalMs: 60_000,
+};
+
+export const DEFAULT_MCP_SESSION_TTL_MS = 30 * 60_000;
+export const DEFAULT_MCP_MAX_SESSIONS = 1000;
+export const DEFAULT_MCP_MAX_SESSIONS_PER_CLIENT = 10;
+
+// Read lazily so values loaded by dotenv after module evaluation are picked up
+export const getMcpConfig = () => {
+  const ttl = Number(process.env.MCP_SESSION_TTL_MS);
+  const maxSessions = Number(process.env.MCP_MAX_SESSIONS);
+  const maxSessionsPerClient = Number(process.env.MCP_MAX_SESSIONS_PER_CLIENT);
+
+  return {
+    sessionTtlMs: Number.isFinite(ttl) && ttl >= 60_000 ? ttl : DEFAULT_MCP_SESSION_TTL_MS,
+    maxSessions: Number.isInteger(maxSessions) && maxSessions > 0 ? maxSessions : DEFAULT_MCP_MAX_SESSIONS,
+    maxSessionsPerClient: Number.isInteger(maxSessionsPerClient) && maxSessionsPerClient > 0
+      ? maxSessionsPerClient
+      : DEFAULT_MCP_MAX_SESSIONS_PER_CLIENT,
+    ...MCP_CONFIG,
+  };
+};
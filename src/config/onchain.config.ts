@@ -0,0 +1,24 @@
+// CoinGecko asset platform IDs -> on-chain (GeckoTerminal) network IDs
+export const PLATFORM_TO_NETWORK: Record<string, string> = {
+  "ethereum": "eth",
+  "binance-smart-chain": "bsc",
+  "polygon-pos": "polygon_pos",
+  "arbitrum-one": "arbitrum",
+  "optimistic-ethereum": "optimism",
+  "avalanche": "avax",
+  "base": "base",
+  "solana": "solana",
+  "fantom": "ftm",
+  "the-open-network": "ton",
+  "tron": "tron",
+  "sui": "sui-network",
+  "zksync": "zksync",
+  "linea": "linea",
+  "blast": "blast",
+};
+
+// Accepts either form, so callers can reuse the chain IDs from other tools
+export const toOnchainNetwork = (platformOrNetwork: string): string => {
+  const key = platformOrNetwork.trim().toLowerCase();
+  return PLATFORM_TO_NETWORK[key] ?? key;
+};
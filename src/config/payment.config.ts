@@ -1,4 +1,9 @@
-import { Resource, type SolanaAddress } from "x402-express";
+import { Resource, type Network, type SolanaAddress } from "x402-express";
+
+export interface ToolPricing {
+  price: string;
+  network: Network;
+}
 
 export const PAYMENT_CONFIG = {
   // Tool pricing in USD
@@ -19,13 +24,103 @@ export const PAYMENT_CONFIG = {
       price: "$0.1",
       network: "base-sepolia" as const,
     },
+    get_market_chart: {
+      price: "$0.2",
+      network: "base-sepolia" as const,
+    },
+    get_ohlc: {
+      price: "$0.2",
+      network: "base-sepolia" as const,
+    },
+    get_coins_markets: {
+      price: "$0.25",
+      network: "base-sepolia" as const,
+    },
+    search_coins: {
+      price: "$0.05",
+      network: "base-sepolia" as const,
+    },
+    get_token_prices_by_addresses: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_global_market: {
+      price: "$0.1",
+      network: "base-sepolia" as const,
+    },
+    get_exchanges: {
+      price: "$0.1",
+      network: "base-sepolia" as const,
+    },
+    get_exchange: {
+      price: "$0.1",
+      network: "base-sepolia" as const,
+    },
+    get_exchange_tickers: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_coin_tickers: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_categories: {
+      price: "$0.1",
+      network: "base-sepolia" as const,
+    },
+    get_nfts_list: {
+      price: "$0.1",
+      network: "base-sepolia" as const,
+    },
+    get_nft_collection: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_nft_by_contract: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_token_pools: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_pool_ohlcv: {
+      price: "$0.2",
+      network: "base-sepolia" as const,
+    },
+    get_trending_pools: {
+      price: "$0.15",
+      network: "base-sepolia" as const,
+    },
+    get_onchain_token_price: {
+      price: "$0.1",
+      network: "base-sepolia" as const,
+    },
+    value_portfolio: {
+      price: "$0.25",
+      network: "base-sepolia" as const,
+    },
+    create_price_alert: {
+      price: "$0.5",
+      network: "base-sepolia" as const,
+    },
+    list_price_alerts: {
+      price: "$0.01",
+      network: "base-sepolia" as const,
+    },
+    delete_price_alert: {
+      price: "$0.01",
+      network: "base-sepolia" as const,
+    },
   },
-  
-  // JSON-RPC endpoint pricing
-  jsonRpc: {
-    price: "$0.5",
-    network: "base-sepolia" as const,
-  },
+};
+
+// Settlement asset advertised alongside tool prices in /mcp/tools
+export const PAYMENT_ASSET = {
+  tokens: [
+    { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", decimals: 6 },
+  ],
+  chainId: 84532,
 };
 
 // Helper to get facilitator URL from env
@@ -0,0 +1,22 @@
+// MCP resource subscription settings
+
+export const DEFAULT_RESOURCE_POLL_INTERVAL_MS = 30_000;
+// Each subscription is re-read every poll, so a session cannot hold unbounded numbers of them
+export const DEFAULT_MAX_SUBSCRIPTIONS_PER_SESSION = 25;
+// Distinct URIs polled across all sessions; every one costs upstream calls each tick
+export const DEFAULT_MAX_WATCHED_RESOURCES = 200;
+
+// Read lazily so values loaded by dotenv after module evaluation are picked up
+export const getResourcesConfig = () => {
+  const pollInterval = Number(process.env.RESOURCE_POLL_INTERVAL_MS);
+  const maxSubscriptions = Number(process.env.RESOURCE_MAX_SUBSCRIPTIONS);
+  const maxWatches = Number(process.env.RESOURCE_MAX_WATCHED);
+
+  return {
+    pollIntervalMs: Number.isFinite(pollInterval) && pollInterval >= 5_000 ? pollInterval : DEFAULT_RESOURCE_POLL_INTERVAL_MS,
+    maxSubscriptionsPerSession: Number.isInteger(maxSubscriptions) && maxSubscriptions > 0
+      ? maxSubscriptions
+      : DEFAULT_MAX_SUBSCRIPTIONS_PER_SESSION,
+    maxWatchedResources: Number.isInteger(maxWatches) && maxWatches > 0 ? maxWatches : DEFAULT_MAX_WATCHED_RESOURCES,
+  };
+};
@@ -5,8 +5,13 @@ import healthRoutes from "./routes/health.routes.js";
 import mcpRoutes from "./routes/mcp.routes.js";
 import coingeckoRoutes from "./routes/coingecko.routes.js";
 import { errorHandler } from "./middleware/errorHandler.js";
-import { PAYMENT_CONFIG, getFacilitatorUrl, getPaymentAddress, isPaymentConfigured } from "./config/payment.config.js";
+import { REQUEST_ID_HEADER, requestId } from "./middleware/requestId.js";
+import { mcpToolPayment } from "./middleware/mcpPayment.js";
+import { getFacilitatorUrl, getPaymentAddress, isPaymentConfigured } from "./config/payment.config.js";
 import { paymentMiddleware } from "x402-express";
+import { TOOL_REGISTRY, getToolPaymentRoute } from "./tools/index.js";
+import { getAlertsConfig } from "./config/alerts.config.js";
+import { startAlertEvaluator } from "./services/alertEvaluator.js";
 
 // Load environment variables
 config();
@@ -28,7 +33,9 @@ const app = express();
 const PORT = process.env.PORT || 8000;
 
 // Middleware
-app.use(cors());
+// Browser MCP clients need to read the session ID issued on initialize
+app.use(cors({ exposedHeaders: ["Mcp-Session-Id", REQUEST_ID_HEADER, "Retry-After"] }));
+app.use(requestId);
 app.use(express.json());
 // Payment middleware for tool endpoints (if configured)
 if (facilitatorUrl && payTo) {
@@ -36,18 +43,16 @@ if (facilitatorUrl && payTo) {
   app.use(
     paymentMiddleware(
       payTo,
-      {
-        "GET /mcp/simple/price": PAYMENT_CONFIG.tools.get_simple_price,
-        "GET /mcp/search/trending": PAYMENT_CONFIG.tools.get_trending_coins,
-        "GET /mcp/coins/list/new": PAYMENT_CONFIG.tools.get_new_coins,
-        "GET /mcp/coins/:chainId/contract/:tokenAddress": PAYMENT_CONFIG.tools.get_token_price_by_address,
-        "GET /mcp": PAYMENT_CONFIG.jsonRpc,
-      },
+      Object.fromEntries(
+        TOOL_REGISTRY.map((tool) => [getToolPaymentRoute(tool), tool.pricing])
+      ),
       {
         url: facilitatorUrl,
       },
     ),
   );
+  // JSON-RPC tools/call is priced per tool, like the REST routes
+  app.use(mcpToolPayment(payTo, { url: facilitatorUrl }));
 }
 
 
@@ -75,13 +80,16 @@ app.listen(PORT, () => {
     console.log(`\n💰 Payment: ENABLED (Coinbase x402)`);
     console.log(`   Network: base-sepolia`);
     console.log(`\n🪙 CoinGecko Pricing:`);
-    console.log(`   Simple Price: ${PAYMENT_CONFIG.tools.get_simple_price.price}`);
-    console.log(`   Trending Coins: ${PAYMENT_CONFIG.tools.get_trending_coins.price}`);
-    console.log(`   New Coins: ${PAYMENT_CONFIG.tools.get_new_coins.price}`);
-    console.log(`   Token by Address: ${PAYMENT_CONFIG.tools.get_token_price_by_address.price}`);
+    for (const tool of TOOL_REGISTRY) {
+      console.log(`   ${tool.name}: ${tool.pricing.price}`);
+    }
   } else {
     console.log(`\n💰 Payment: DISABLED (Configure .env to enable)`);
   }
+
+  if (startAlertEvaluator()) {
+    console.log(`\n🔔 Price alerts: checking every ${getAlertsConfig().pollIntervalMs / 1000}s`);
+  }
   
 });
 
@@ -1,9 +1,34 @@
 import { Request, Response, NextFunction } from "express";
+import { toErrorEnvelope } from "../tools/errorEnvelope.js";
+import { getRequestId } from "./requestId.js";
+
+// Sends the shared error envelope, with Retry-After when CoinGecko supplied one
+export const sendError = (res: Response, error: unknown, label: string) => {
+  const { status, body } = toErrorEnvelope(error, label, getRequestId(res));
+
+  if (body.retry_after_seconds !== undefined) {
+    res.setHeader("Retry-After", String(body.retry_after_seconds));
+  }
+  return res.status(status).json(body);
+};
 
 export const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error("❌ Server error:", err);
-  res.status(500).json({
-    error: "Internal server error",
-    message: err.message,
-  });
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  // Malformed JSON bodies are rejected by express.json() before any route runs
+  if ((err as { type?: string }).type === "entity.parse.failed") {
+    if (req.path === "/mcp" || req.path === "/mcp/") {
+      return res.status(400).json({
+        jsonrpc: "2.0",
+        error: { code: -32700, message: "Parse error" },
+        id: null,
+      });
+    }
+    return sendError(res, err, "Invalid JSON body");
+  }
+
+  console.error(`❌ [${getRequestId(res)}] Server error:`, err);
+  sendError(res, err, "Internal server error");
 };
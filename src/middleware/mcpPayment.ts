@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from "express";
+import { paymentMiddleware } from "x402-express";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { TOOL_REGISTRY } from "../tools/index.js";
+
+type PayTo = Parameters<typeof paymentMiddleware>[0];
+type Facilitator = Parameters<typeof paymentMiddleware>[2];
+
+// Endpoints that accept JSON-RPC tools/call: stateless and Streamable HTTP, and legacy SSE messages
+const MCP_MESSAGE_ROUTES = ["POST /mcp", "POST /mcp/messages"];
+
+// USDC has 6 decimals, so prices are summed in millionths of a dollar
+const MICRO_USD = 1_000_000;
+
+const toMicroUsd = (price: string): number => Math.round(Number(price.replace("$", "")) * MICRO_USD);
+
+// Names of the tools/call requests in a single or batched JSON-RPC body
+const getCalledTools = (body: unknown): string[] => {
+  const messages: unknown[] = Array.isArray(body) ? body : [body];
+  return messages.flatMap((message) => {
+    const { method, params } = (message ?? {}) as { method?: unknown; params?: { name?: unknown } };
+    return method === "tools/call" && typeof params?.name === "string" ? [params.name] : [];
+  });
+};
+
+/**
+ * Charges for tools/call on the MCP message endpoints with the same per-tool
+ * price as the tool's REST route. A batch costs the sum of its calls, so it
+ * is settled as one payment. Unknown tools are free because the server
+ * rejects them, and every other method (initialize, tools/list,
+ * resources/read, ...) passes through unpriced.
+ */
+export const mcpToolPayment = (payTo: PayTo, facilitator: Facilitator) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const tools = getCalledTools(req.body)
+      .map((name) => TOOL_REGISTRY.find((tool) => tool.name === name))
+      .filter((tool) => tool !== undefined);
+    if (tools.length === 0) return next();
+
+    const network = tools[0].pricing.network;
+    if (tools.some((tool) => tool.pricing.network !== network)) {
+      return res.status(400).json({
+        jsonrpc: "2.0",
+        error: { code: ErrorCode.InvalidRequest, message: "Batch mixes tools paid on different networks; send them separately" },
+        id: null,
+      });
+    }
+
+    const total = tools.reduce((sum, tool) => sum + toMicroUsd(tool.pricing.price), 0);
+    const route = {
+      price: `$${total / MICRO_USD}`,
+      network,
+      config: { description: `MCP tools/call: ${[...new Set(tools.map((tool) => tool.name))].join(", ")}` },
+    };
+
+    // x402 takes a fixed route map, so one is built for the price of this body
+    return paymentMiddleware(
+      payTo,
+      Object.fromEntries(MCP_MESSAGE_ROUTES.map((key) => [key, route])),
+      facilitator
+    )(req, res, next);
+  };
+};
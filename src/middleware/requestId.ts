@@ -0,0 +1,20 @@
+import { randomUUID } from "node:crypto";
+import { Request, Response, NextFunction } from "express";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Caller-supplied IDs are reused so requests can be traced across services
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const supplied = req.header(REQUEST_ID_HEADER);
+  const id = supplied && VALID_REQUEST_ID.test(supplied) ? supplied : randomUUID();
+
+  // Also rewritten on the request so MCP transports pass it to tool handlers
+  req.headers[REQUEST_ID_HEADER.toLowerCase()] = id;
+  res.locals.requestId = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+  next();
+};
+
+export const getRequestId = (res: Response): string => res.locals.requestId ?? randomUUID();
@@ -1,11 +1,19 @@
 import { Router, Request, Response } from "express";
 import { MCPServer } from "../server.js";
-import { isPaymentConfigured, PAYMENT_CONFIG } from "../config/payment.config.js";
+import { isPaymentConfigured } from "../config/payment.config.js";
+import { getCoinGeckoSettings } from "../config/coingecko.config.js";
+import { TOOL_REGISTRY } from "../tools/index.js";
 
 const router = Router();
 
+// Maps each registered tool to a value, keyed by tool name
+const mapTools = <T>(fn: (tool: (typeof TOOL_REGISTRY)[number]) => T): Record<string, T> =>
+  Object.fromEntries(TOOL_REGISTRY.map((tool) => [tool.name, fn(tool)]));
+
 // Root endpoint - Server info
 router.get("/", (req: Request, res: Response) => {
+  const mcpServer = new MCPServer();
+
   res.json({
     name: "CoinGecko MCP Server",
     version: "1.0.0",
@@ -15,10 +23,7 @@ router.get("/", (req: Request, res: Response) => {
       initialize: "POST /mcp/initialize",
       tools: {
         list: "GET/POST /mcp/tools",
-        get_simple_price: "GET /coingecko/simple/price",
-        get_trending_coins: "GET /coingecko/search/trending",
-        get_new_coins: "GET /coingecko/coins/list/new",
-        get_token_price_by_address: "GET /coingecko/coins/:chainId/contract/:tokenAddress"
+        ...mapTools((tool) => `${tool.rest.method} /mcp${tool.rest.path}`),
       },
       prompts: {
         list: "GET/POST /mcp/prompts"
@@ -27,35 +32,24 @@ router.get("/", (req: Request, res: Response) => {
         list: "GET/POST /mcp/resources"
       },
       jsonRpc: "POST /mcp",
+      streamableHttp: "POST/GET/DELETE /mcp (Mcp-Session-Id)",
+      legacySse: "GET /mcp/sse + POST /mcp/messages",
       health: "GET /health",
       info: "GET /info"
     },
     pricing: isPaymentConfigured() ? {
-      get_simple_price: PAYMENT_CONFIG.tools.get_simple_price.price,
-      get_trending_coins: PAYMENT_CONFIG.tools.get_trending_coins.price,
-      get_new_coins: PAYMENT_CONFIG.tools.get_new_coins.price,
-      get_token_price_by_address: PAYMENT_CONFIG.tools.get_token_price_by_address.price,
-      jsonRpc: PAYMENT_CONFIG.jsonRpc.price,
+      ...mapTools((tool) => tool.pricing.price),
+      // tools/call over JSON-RPC costs the same as the tool's REST route
+      jsonRpc: "per tool",
       network: "base-sepolia"
     } : null,
-    examples: {
-      get_simple_price: {
-        get: "/coingecko/simple/price?ids=bitcoin,ethereum&vs_currencies=usd",
-      },
-      get_trending_coins: {
-        get: "/coingecko/search/trending",
-      },
-      get_new_coins: {
-        get: "/coingecko/coins/list/new",
-      },
-      get_token_price_by_address: {
-        get: "/coingecko/coins/ethereum/contract/0x...",
-      }
-    },
+    examples: mapTools((tool) => ({
+      [tool.rest.method.toLowerCase()]: `/mcp${tool.rest.example ?? tool.rest.path}`,
+    })),
     capabilities: {
-      tools: ["get_simple_price", "get_trending_coins", "get_new_coins", "get_token_price_by_address"],
-      prompts: ["crypto_price_check", "market_analysis", "token_research"],
-      resources: ["coingecko://market/status", "coingecko://trending/coins", "coingecko://new/coins", "coingecko://api/info"],
+      tools: TOOL_REGISTRY.map((tool) => tool.name),
+      prompts: mcpServer.getPrompts().map((prompt) => prompt.name),
+      resources: mcpServer.getResources().map((resource) => resource.uri),
     },
   });
 });
@@ -71,6 +65,9 @@ router.get("/health", (req: Request, res: Response) => {
 
 // Info endpoint
 router.get("/info", (req: Request, res: Response) => {
+  const mcpServer = new MCPServer();
+  const coingecko = getCoinGeckoSettings();
+
   res.json({
     name: "coingecko-mcp-server",
     version: "1.0.0",
@@ -78,33 +75,24 @@ router.get("/info", (req: Request, res: Response) => {
     description: "MCP server providing CoinGecko crypto market data tools",
     paymentEnabled: isPaymentConfigured(),
     paymentNetwork: isPaymentConfigured() ? "base-sepolia" : null,
+    coingecko: {
+      plan: coingecko.plan,
+      baseUrl: coingecko.baseUrl,
+      authenticated: !!coingecko.apiKey,
+      rateLimitPerMinute: coingecko.rateLimitPerMinute,
+    },
     capabilities: {
-      tools: {
-        get_simple_price: "Get current prices for multiple crypto tokens",
-        get_trending_coins: "Get currently trending coins on CoinGecko",
-        get_new_coins: "Get newly listed coins on CoinGecko",
-        get_token_price_by_address: "Get token data by contract address",
-      },
-      prompts: {
-        crypto_price_check: "Get current prices for popular cryptocurrencies",
-        market_analysis: "Comprehensive crypto market analysis with trending and new coins",
-        token_research: "Deep dive research on a specific token by contract address",
-      },
-      resources: {
-        "coingecko://market/status": "Current crypto market overview and statistics",
-        "coingecko://trending/coins": "Currently trending cryptocurrencies",
-        "coingecko://new/coins": "Recently listed cryptocurrencies on CoinGecko",
-        "coingecko://api/info": "CoinGecko API documentation and available endpoints",
-      },
+      tools: mapTools((tool) => tool.summary),
+      prompts: Object.fromEntries(
+        mcpServer.getPrompts().map((prompt) => [prompt.name, prompt.description])
+      ),
+      resources: Object.fromEntries(
+        mcpServer.getResources().map((resource) => [resource.uri, resource.description])
+      ),
     },
     pricing: isPaymentConfigured() ? {
-      tools: {
-        get_simple_price: PAYMENT_CONFIG.tools.get_simple_price.price,
-        get_trending_coins: PAYMENT_CONFIG.tools.get_trending_coins.price,
-        get_new_coins: PAYMENT_CONFIG.tools.get_new_coins.price,
-        get_token_price_by_address: PAYMENT_CONFIG.tools.get_token_price_by_address.price,
-      },
-      jsonRpc: PAYMENT_CONFIG.jsonRpc.price,
+      tools: mapTools((tool) => tool.pricing.price),
+      jsonRpc: "per tool",
     } : null,
   });
 });
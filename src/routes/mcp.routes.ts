@@ -1,10 +1,195 @@
-import { Router, Request, Response } from "express";
+import { randomUUID } from "node:crypto";
+import { Router, Request, Response, NextFunction } from "express";
 import { MCPServer } from "../server.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  ErrorCode,
+  JSONRPCMessageSchema,
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getMcpConfig } from "../config/mcp.config.js";
+import { PAYMENT_ASSET } from "../config/payment.config.js";
+import { sendError } from "../middleware/errorHandler.js";
+import { getRequestId } from "../middleware/requestId.js";
+import { InProcessTransport } from "../services/inProcessTransport.js";
+import { MemoryEventStore } from "../services/mcpEventStore.js";
+import { getMcpSessionStore, type McpSession } from "../services/mcpSessions.js";
+import { TOOL_REGISTRY, getToolEndpoint } from "../tools/index.js";
 
 const router = Router();
 
+const SESSION_HEADER = "mcp-session-id";
+// Endpoint legacy SSE clients are told to POST their messages to
+const LEGACY_MESSAGES_PATH = "/mcp/messages";
+
+let catalogServer: MCPServer | undefined;
+
+// Stateless instance for the listing endpoints; created lazily so env is loaded first
+const getCatalogServer = (): MCPServer => {
+  catalogServer ??= new MCPServer();
+  return catalogServer;
+};
+
+// Methods that only make sense on a session that can receive notifications
+const SESSION_ONLY_METHODS = new Set(["resources/subscribe", "resources/unsubscribe"]);
+
+let statelessTransport: Promise<InProcessTransport> | undefined;
+
+// Catalog server connected once to an in-process transport for stateless JSON-RPC
+const getStatelessTransport = (): Promise<InProcessTransport> => {
+  statelessTransport ??= (async () => {
+    const transport = new InProcessTransport();
+    await getCatalogServer().getServer().connect(transport);
+    return transport;
+  })();
+  return statelessTransport;
+};
+
+const jsonRpcError = (id: RequestId | null, code: number, message: string, data?: unknown) => ({
+  jsonrpc: "2.0" as const,
+  error: {
+    code,
+    message,
+    ...(data !== undefined && { data: data instanceof Error ? data.message : data }),
+  },
+  id,
+});
+
+// Validates one message of a (possibly batched) body and runs it through the SDK server
+const dispatchStateless = async (transport: InProcessTransport, message: unknown, req: Request): Promise<JSONRPCMessage | undefined> => {
+  const parsed = JSONRPCMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    const id = (message as { id?: unknown } | null)?.id;
+    const validId = typeof id === "string" || typeof id === "number" ? id : null;
+    return jsonRpcError(validId, ErrorCode.InvalidRequest, "Invalid Request", parsed.error.issues[0]?.message) as JSONRPCMessage;
+  }
+
+  const rpc = parsed.data;
+  if (isJSONRPCRequest(rpc) && SESSION_ONLY_METHODS.has(rpc.method)) {
+    return jsonRpcError(rpc.id, ErrorCode.InvalidRequest, `${rpc.method} requires an MCP session; connect with Streamable HTTP or SSE`) as JSONRPCMessage;
+  }
+
+  return await transport.dispatch(rpc, { requestInfo: { headers: req.headers } });
+};
+
+const sendSessionError = (res: Response, status: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: status === 404 ? -32001 : -32000, message },
+    id: null,
+  });
+};
+
+// Resolves the Streamable HTTP session named by the Mcp-Session-Id header, answering with an error if there is none
+const findStreamableSession = (req: Request, res: Response): (McpSession & { transport: StreamableHTTPServerTransport }) | undefined => {
+  const sessionId = req.header(SESSION_HEADER);
+  if (!sessionId) {
+    sendSessionError(res, 400, "Bad Request: Mcp-Session-Id header is required");
+    return undefined;
+  }
+
+  const session = getMcpSessionStore().get(sessionId);
+  if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+    sendSessionError(res, 404, "Session not found");
+    return undefined;
+  }
+  return session as McpSession & { transport: StreamableHTTPServerTransport };
+};
+
+// Session limits are per address; the app does not trust proxy headers
+const getClientAddress = (req: Request): string => req.ip ?? req.socket.remoteAddress ?? "unknown";
+
+// New Streamable HTTP session backed by its own long-lived MCPServer
+const createStreamableSession = async (client: string): Promise<{ mcpServer: MCPServer; transport: StreamableHTTPServerTransport }> => {
+  const sessions = getMcpSessionStore();
+  const mcpServer = new MCPServer();
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new MemoryEventStore(getMcpConfig().maxEventsPerSession),
+    onsessioninitialized: (sessionId) => {
+      sessions.add({ id: sessionId, server: mcpServer, transport, client });
+      console.log(`🔗 MCP session ${sessionId} started (${sessions.size} active)`);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.remove(transport.sessionId);
+      console.log(`🔌 MCP session ${transport.sessionId} closed`);
+    }
+  };
+
+  await mcpServer.getServer().connect(transport);
+  return { mcpServer, transport };
+};
+
+// Streamable HTTP transport: session requests and initialize requests from clients that accept SSE.
+// Anything else falls through to the stateless JSON-RPC handler below.
+router.post("/", async (req: Request, res: Response, next: NextFunction) => {
+  const acceptsStream = String(req.headers.accept ?? "").includes("text/event-stream");
+  if (!req.header(SESSION_HEADER) && !(isInitializeRequest(req.body) && acceptsStream)) {
+    return next();
+  }
+
+  try {
+    if (req.header(SESSION_HEADER)) {
+      const session = findStreamableSession(req, res);
+      if (!session) return;
+      await session.transport.handleRequest(req, res, req.body);
+    } else {
+      const client = getClientAddress(req);
+      if (!getMcpSessionStore().hasRoomFor(client)) {
+        return sendSessionError(res, 429, "Too many MCP sessions for this client; close unused sessions first");
+      }
+
+      const { mcpServer, transport } = await createStreamableSession(client);
+      try {
+        await transport.handleRequest(req, res, req.body);
+      } finally {
+        // The session ID is assigned once initialize is accepted; without it nothing can reach this server
+        if (!transport.sessionId) {
+          await mcpServer.getServer().close().catch(() => undefined);
+        }
+      }
+    }
+  } catch (error) {
+    console.error("❌ Error handling Streamable HTTP request:", error);
+    if (!res.headersSent) sendSessionError(res, 500, "Internal error");
+  }
+});
+
+// Standalone SSE stream for server-initiated messages; resumable with Last-Event-ID
+router.get("/", async (req: Request, res: Response) => {
+  const session = findStreamableSession(req, res);
+  if (!session) return;
+
+  getMcpSessionStore().trackStream(session, res);
+  try {
+    await session.transport.handleRequest(req, res);
+  } catch (error) {
+    console.error("❌ Error opening MCP event stream:", error);
+    if (!res.headersSent) sendSessionError(res, 500, "Internal error");
+  }
+});
+
+// Explicit session termination
+router.delete("/", async (req: Request, res: Response) => {
+  const session = findStreamableSession(req, res);
+  if (!session) return;
+
+  try {
+    await session.transport.handleRequest(req, res);
+  } catch (error) {
+    console.error("❌ Error closing MCP session:", error);
+    if (!res.headersSent) sendSessionError(res, 500, "Internal error");
+  }
+});
+
 // MCP Initialize endpoint
 router.post("/initialize", async (req: Request, res: Response) => {
   console.log("🔧 Handling initialize request");
@@ -14,105 +199,41 @@ router.post("/initialize", async (req: Request, res: Response) => {
     console.log(`   Client: ${clientInfo?.name || "unknown"} v${clientInfo?.version || "unknown"}`);
     console.log(`   Protocol version: ${protocolVersion || "unknown"}`);
 
-    const mcpServer = new MCPServer();
+    const mcpServer = getCatalogServer();
     const serverInfo = mcpServer.getServerInfo();
 
     return res.json({
       protocolVersion: "2024-11-05",
-      capabilities: {
-        tools: {
-          listChanged: false
-        },
-        prompts: {
-          listChanged: false
-        },
-        resources: {
-          subscribe: false,
-          listChanged: false
-        }
-      },
+      capabilities: mcpServer.getCapabilities(),
       serverInfo: {
         name: serverInfo.name,
         version: serverInfo.version
       }
     });
   } catch (error) {
-    console.error("❌ Error in initialize:", error);
-    return res.status(500).json({
-      error: "Initialize failed",
-      message: error instanceof Error ? error.message : String(error)
-    });
+    console.error(`❌ [${getRequestId(res)}] Error in initialize:`, error);
+    return sendError(res, error, "Initialize failed");
   }
 });
 
 // Tools List - GET only
 router.get("/tools", (req: Request, res: Response) => {
   console.log("🔧 GET /mcp/tools - Listing tools");
-  const mcpServer = new MCPServer();
-  const tools = mcpServer.getTools();
-  
-  // Pricing map with token and chainId info
-  const pricingMap: Record<string, { 
-    price: string; 
-    network: string;
-    tokens: Array<{ address: string; symbol: string; decimals: number }>;
-    chainId: number;
-  }> = {
-    get_simple_price: {
-      ...PAYMENT_CONFIG.tools.get_simple_price,
-      tokens: [
-        { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", decimals: 6 }
-      ],
-      chainId: 84532
-    },
-    get_trending_coins: {
-      ...PAYMENT_CONFIG.tools.get_trending_coins,
-      tokens: [
-        { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", decimals: 6 }
-      ],
-      chainId: 84532
-    },
-    get_new_coins: {
-      ...PAYMENT_CONFIG.tools.get_new_coins,
-      tokens: [
-        { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", decimals: 6 }
-      ],
-      chainId: 84532
-    },
-    get_token_price_by_address: {
-      ...PAYMENT_CONFIG.tools.get_token_price_by_address,
-      tokens: [
-        { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", decimals: 6 }
-      ],
-      chainId: 84532
-    },
-  };
-  
   // Transform to simplified format with pricing
-  const simplifiedTools = tools.map(tool => ({
+  const simplifiedTools = TOOL_REGISTRY.map(tool => ({
     name: tool.name,
     description: tool.description,
-    endpoint: `${ 
-                      tool.name === 'get_simple_price' ? '/simple/price' :
-                      tool.name === 'get_trending_coins' ? '/search/trending' :
-                      tool.name === 'get_new_coins' ? '/coins/list/new' :
-                      tool.name === 'get_token_price_by_address' ? '/coins/{chainId}/contract/{tokenAddress}' :
-                      tool.name}`,
-    parameters: tool.inputSchema.properties ? 
-      Object.entries(tool.inputSchema.properties).map(([key, value]: [string, any]) => ({
-        name: key,
-        type: value.type,
-        description: value.description,
-        required: (tool.inputSchema.required as string[] | undefined)?.includes(key) || false,
-        enum: value.enum || undefined
-      })) : [],
-    pricing: pricingMap[tool.name] || { 
-      price: "$0.1", 
-      network: "base-sepolia",
-      tokens: [
-        { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", decimals: 6 }
-      ],
-      chainId: 84532
+    endpoint: getToolEndpoint(tool),
+    parameters: Object.entries(tool.inputSchema.properties).map(([key, value]) => ({
+      name: key,
+      type: value.type,
+      description: value.description,
+      required: tool.inputSchema.required.includes(key),
+      enum: value.enum || undefined
+    })),
+    pricing: {
+      ...tool.pricing,
+      ...PAYMENT_ASSET,
     }
   }));
   
@@ -122,7 +243,7 @@ router.get("/tools", (req: Request, res: Response) => {
 // Prompts List - GET only
 router.get("/prompts", (req: Request, res: Response) => {
   console.log("🔧 GET /mcp/prompts - Listing prompts");
-  const mcpServer = new MCPServer();
+  const mcpServer = getCatalogServer();
   const prompts = mcpServer.getPrompts();
   
   res.json(prompts);
@@ -131,150 +252,96 @@ router.get("/prompts", (req: Request, res: Response) => {
 // Resources List - GET only
 router.get("/resources", (req: Request, res: Response) => {
   console.log("🔧 GET /mcp/resources - Listing resources");
-  const mcpServer = new MCPServer();
+  const mcpServer = getCatalogServer();
   const resources = mcpServer.getResources();
   
   res.json(resources);
 });
 
-// MCP JSON-RPC endpoint (backward compatibility)
+// Stateless JSON-RPC on POST /mcp for clients without a session. Every
+// message goes through the SDK Server, so all registered handlers work.
 router.post("/", async (req: Request, res: Response) => {
   console.log("📨 MCP JSON-RPC request received");
 
-  try {
-    const { jsonrpc, method, params, id } = req.body;
-
-    // Validate JSON-RPC request
-    if (jsonrpc !== "2.0") {
-      return res.status(400).json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32600,
-          message: "Invalid Request: jsonrpc must be '2.0'"
-        },
-        id: id || null
-      });
-    }
-
-    const mcpServer = new MCPServer();
-
-    // Handle initialize method
-    if (method === "initialize") {
-      const serverInfo = mcpServer.getServerInfo();
-      return res.json({
-        jsonrpc: "2.0",
-        result: {
-          protocolVersion: "2024-11-05",
-          capabilities: {
-            tools: { listChanged: false },
-            prompts: { listChanged: false },
-            resources: { subscribe: false, listChanged: false }
-          },
-          serverInfo: { name: serverInfo.name, version: serverInfo.version }
-        },
-        id
-      });
-    }
+  const body = req.body;
+  const isBatch = Array.isArray(body);
+  const messages: unknown[] = isBatch ? body : [body];
 
-    // Handle tools/list method
-    if (method === "tools/list") {
-      return res.json({
-        jsonrpc: "2.0",
-        result: { tools: mcpServer.getTools() },
-        id
-      });
-    }
+  if (messages.length === 0) {
+    return res.status(400).json(jsonRpcError(null, ErrorCode.InvalidRequest, "Invalid Request: empty batch"));
+  }
 
-    // Handle prompts/list method
-    if (method === "prompts/list") {
-      return res.json({
-        jsonrpc: "2.0",
-        result: { prompts: mcpServer.getPrompts() },
-        id
-      });
-    }
+  try {
+    const transport = await getStatelessTransport();
+    const replies = await Promise.all(messages.map((message) => dispatchStateless(transport, message, req)));
+    const responses = replies.filter((reply): reply is JSONRPCMessage => reply !== undefined);
 
-    // Handle resources/list method
-    if (method === "resources/list") {
-      return res.json({
-        jsonrpc: "2.0",
-        result: { resources: mcpServer.getResources() },
-        id
-      });
+    // Only notifications or responses: nothing to return
+    if (responses.length === 0) {
+      return res.status(202).end();
     }
 
-    // Handle tools/call method
-    if (method === "tools/call") {
-      const { name, arguments: toolArgs } = params;
-      if (!name) {
-        return res.status(400).json({
-          jsonrpc: "2.0",
-          error: { code: -32602, message: "Invalid params: 'name' is required" },
-          id
-        });
-      }
-
-      try {
-        const result = await mcpServer.callTool(name, toolArgs || {});
-        return res.json({ jsonrpc: "2.0", result, id });
-      } catch (error) {
-        return res.status(400).json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32602,
-            message: error instanceof Error ? error.message : String(error)
-          },
-          id
-        });
-      }
+    if (isBatch) {
+      return res.json(responses);
     }
 
-    // Handle other methods
-    return res.status(501).json({
-      jsonrpc: "2.0",
-      error: { code: -32601, message: `Method not implemented: ${method}` },
-      id
-    });
-
+    // A lone message the server could not even accept is the client's fault
+    const [response] = responses;
+    const rejected = isJSONRPCError(response) && !isJSONRPCRequest(body);
+    return res.status(rejected ? 400 : 200).json(response);
   } catch (error) {
     console.error("❌ Error handling MCP request:", error);
-    return res.status(500).json({
-      jsonrpc: "2.0",
-      error: {
-        code: -32603,
-        message: "Internal error",
-        data: error instanceof Error ? error.message : String(error)
-      },
-      id: req.body?.id || null
-    });
+    return res.status(500).json(jsonRpcError(null, ErrorCode.InternalError, "Internal error", error));
   }
 });
 
-// MCP SSE endpoint (alternative transport)
-router.post("/sse", async (req: Request, res: Response) => {
+// Legacy HTTP+SSE transport (protocol 2024-11-05): the stream announces
+// LEGACY_MESSAGES_PATH, where the client then POSTs its requests
+const openLegacySseSession = async (req: Request, res: Response) => {
   console.log("📨 MCP SSE connection request received");
 
+  const sessions = getMcpSessionStore();
+  const client = getClientAddress(req);
+  if (!sessions.hasRoomFor(client)) {
+    return sendSessionError(res, 429, "Too many MCP sessions for this client; close unused sessions first");
+  }
+
   try {
     const mcpServer = new MCPServer();
-    const server = mcpServer.getServer();
-
-    const transport = new SSEServerTransport("/messages", res);
+    const transport = new SSEServerTransport(LEGACY_MESSAGES_PATH, res);
 
-    res.on("close", () => {
+    const session = sessions.add({ id: transport.sessionId, server: mcpServer, transport, client });
+    sessions.trackStream(session, res);
+    transport.onclose = () => {
+      sessions.remove(transport.sessionId);
       console.log("🔌 MCP SSE connection closed");
-    });
+    };
 
-    await server.connect(transport);
-    console.log("✅ MCP server connected via SSE");
+    await mcpServer.getServer().connect(transport);
+    console.log(`✅ MCP server connected via SSE (session ${transport.sessionId})`);
   } catch (error) {
-    console.error("❌ Error setting up MCP SSE connection:", error);
+    console.error(`❌ [${getRequestId(res)}] Error setting up MCP SSE connection:`, error);
     if (!res.headersSent) {
-      res.status(500).json({
-        error: "Failed to establish MCP SSE connection",
-        message: error instanceof Error ? error.message : String(error),
-      });
+      sendError(res, error, "Failed to establish MCP SSE connection");
     }
   }
+};
+
+router.get("/sse", openLegacySseSession);
+router.post("/sse", openLegacySseSession);
+
+router.post("/messages", async (req: Request, res: Response) => {
+  const session = getMcpSessionStore().get(String(req.query.sessionId ?? ""));
+  if (!session || !(session.transport instanceof SSEServerTransport)) {
+    return sendSessionError(res, 404, "Session not found");
+  }
+
+  try {
+    await session.transport.handlePostMessage(req, res, req.body);
+  } catch (error) {
+    console.error("❌ Error handling MCP SSE message:", error);
+    if (!res.headersSent) sendSessionError(res, 500, "Internal error");
+  }
 });
 
 export default router;
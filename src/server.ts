@@ -1,3 +1,4 @@
+import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
@@ -5,8 +6,40 @@ import {
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  ErrorCode,
+  McpError,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { COINGECKO_PLANS, getCoinGeckoSettings } from "./config/coingecko.config.js";
+import { getResourcesConfig } from "./config/resources.config.js";
+import { CoinGeckoClient, getCoinGeckoClient } from "./services/coingecko.client.js";
+import { resolveCoinIds } from "./services/coinResolver.js";
+import { getResourcePoller } from "./services/resourcePoller.js";
+import { ResourceRouter } from "./services/resourceRouter.js";
+import { fetchGlobalMarket } from "./tools/globalMarket.tool.js";
+import { fetchCategories } from "./tools/categories.tool.js";
+import { CHART_DAYS_PATTERN, normalizeMarketChart } from "./tools/marketChart.tool.js";
+import { tokenByAddressTool } from "./tools/tokenByAddress.tool.js";
+import { TOOL_REGISTRY, executeTool, getToolDefinition, getToolEndpoint, type ToolDefinition } from "./tools/index.js";
+import { ToolArgumentError } from "./tools/errors.js";
+import { toErrorEnvelope } from "./tools/errorEnvelope.js";
+import { pathSegment } from "./tools/pathSegment.js";
+
+const SERVER_CAPABILITIES = {
+  tools: { listChanged: false },
+  prompts: { listChanged: false },
+  resources: { subscribe: true, listChanged: false },
+};
+
+type ResourceResult = {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+};
+
+// Chart ranges accepted by /coins/{id}/market_chart, as for the get_market_chart tool
+const CHART_DAYS = new RegExp(CHART_DAYS_PATTERN);
 
 /**
  * 
@@ -15,6 +48,10 @@ import {
  */
 export class MCPServer {
   private server: Server;
+  private client: CoinGeckoClient = getCoinGeckoClient();
+  // Active resource subscriptions of this session, by URI
+  private subscriptions = new Map<string, () => void>();
+  private resourceRouter = this.createResourceRouter();
 
   constructor() {
     this.server = new Server(
@@ -23,191 +60,39 @@ export class MCPServer {
         version: "1.0.0",
       },
       {
-        capabilities: {
-          tools: {},
-          prompts: {},
-          resources: {},
-        },
+        capabilities: SERVER_CAPABILITIES,
       }
     );
 
+    this.server.onclose = () => this.unsubscribeAll();
     this.setupHandlers();
   }
 
   private setupHandlers() {
     // Tools Handler
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: "get_simple_price",
-            description: "Fetch the current price of one or more tokens using CoinGecko's /simple/price endpoint",
-            inputSchema: {
-              type: "object",
-              properties: {
-                ids: {
-                  type: "string",
-                  description: "Comma-separated list of token IDs (e.g., bitcoin,ethereum)",
-                },
-                vs_currencies: {
-                  type: "string",
-                  description: "Comma-separated list of quote currencies (e.g., usd,eur,inr)",
-                },
-                include_market_cap: {
-                  type: "boolean",
-                  description: "Include market cap in the response",
-                },
-                include_24hr_vol: {
-                  type: "boolean",
-                  description: "Include 24h volume in the response",
-                },
-                include_24hr_change: {
-                  type: "boolean",
-                  description: "Include 24h price change in the response",
-                },
-                include_last_updated_at: {
-                  type: "boolean",
-                  description: "Include last update timestamp in the response",
-                },
-                precision: {
-                  type: "number",
-                  description: "Decimal precision for price values",
-                },
-              },
-              required: ["ids", "vs_currencies"],
-            },
-          },
-          {
-            name: "get_trending_coins",
-            description: "Retrieve trending coins from CoinGecko using /search/trending",
-            inputSchema: {
-              type: "object",
-              properties: {},
-              required: [],
-            },
-          },
-          {
-            name: "get_new_coins",
-            description: "Retrieve a list of newly listed coins from CoinGecko using /coins/list/new",
-            inputSchema: {
-              type: "object",
-              properties: {},
-              required: [],
-            },
-          },
-          {
-            name: "get_token_price_by_address",
-            description: "Fetch USD price & market data for a token using /coins/{chainId}/contract/{tokenAddress}",
-            inputSchema: {
-              type: "object",
-              properties: {
-                chainId: {
-                  type: "string",
-                  description: "Blockchain identifier used by CoinGecko (e.g., ethereum, polygon-pos, binance-smart-chain)",
-                },
-                tokenAddress: {
-                  type: "string",
-                  description: "Token contract address",
-                },
-                localization: {
-                  type: "string",
-                  description: "Include localized language in response (true/false). Default: true",
-                },
-                tickers: {
-                  type: "string",
-                  description: "Include tickers data (true/false). Default: true",
-                },
-                market_data: {
-                  type: "string",
-                  description: "Include market data (true/false). Default: true",
-                },
-                community_data: {
-                  type: "string",
-                  description: "Include community data (true/false). Default: true",
-                },
-                developer_data: {
-                  type: "string",
-                  description: "Include developer data (true/false). Default: true",
-                },
-                sparkline: {
-                  type: "string",
-                  description: "Include sparkline 7 days data (true/false). Default: false",
-                },
-              },
-              required: ["chainId", "tokenAddress"],
-            },
-          },
-        ],
-      };
+      return { tools: this.getTools() };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      // Over HTTP, reuse the ID assigned by the requestId middleware
+      const header = extra.requestInfo?.headers["x-request-id"];
+      const requestId = typeof header === "string" ? header : randomUUID();
 
-      switch (name) {
-        case "get_simple_price":
-          return await this.handleGetSimplePrice(args as any);
-        case "get_trending_coins":
-          return await this.handleGetTrendingCoins(args as any);
-        case "get_new_coins":
-          return await this.handleGetNewCoins(args as any);
-        case "get_token_price_by_address":
-          return await this.handleGetTokenPriceByAddress(args as any);
-        default:
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: Unknown tool ${name}`,
-              },
-            ],
-          };
+      const tool = getToolDefinition(name);
+
+      // Naming a tool that does not exist is a protocol error, not a tool failure
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
       }
+
+      return await this.runTool(tool, args ?? {}, requestId);
     });
 
     // Prompts Handler
     this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
-      return {
-        prompts: [
-          {
-            name: "crypto_price_check",
-            description: "Get current prices for popular cryptocurrencies",
-            arguments: [
-              {
-                name: "tokens",
-                description: "Comma-separated list of crypto tokens (e.g., bitcoin,ethereum,solana)",
-                required: true,
-              },
-              {
-                name: "currencies",
-                description: "Quote currencies (default: usd,eur)",
-                required: false,
-              },
-            ],
-          },
-          {
-            name: "market_analysis",
-            description: "Comprehensive crypto market analysis with trending and new coins",
-            arguments: [],
-          },
-          {
-            name: "token_research",
-            description: "Deep dive research on a specific token by contract address",
-            arguments: [
-              {
-                name: "chain",
-                description: "Blockchain name (e.g., ethereum, polygon-pos, binance-smart-chain)",
-                required: true,
-              },
-              {
-                name: "address",
-                description: "Token contract address",
-                required: true,
-              },
-            ],
-          },
-        ],
-      };
+      return { prompts: this.getPrompts() };
     });
 
     this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
@@ -220,58 +105,35 @@ export class MCPServer {
           return await this.handleMarketAnalysisPrompt();
         case "token_research":
           return await this.handleTokenResearchPrompt(args);
+        case "nft_research":
+          return await this.handleNftResearchPrompt(args);
         default:
-          throw new Error(`Unknown prompt: ${name}`);
+          throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
       }
     });
 
     // Resources Handler
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      return {
-        resources: [
-          {
-            uri: "coingecko://market/status",
-            name: "Market Status",
-            description: "Current crypto market overview and statistics",
-            mimeType: "application/json",
-          },
-          {
-            uri: "coingecko://trending/coins",
-            name: "Trending Coins",
-            description: "Currently trending cryptocurrencies",
-            mimeType: "application/json",
-          },
-          {
-            uri: "coingecko://new/coins",
-            name: "New Listings",
-            description: "Recently listed cryptocurrencies on CoinGecko",
-            mimeType: "application/json",
-          },
-          {
-            uri: "coingecko://api/info",
-            name: "API Information",
-            description: "CoinGecko API documentation and available endpoints",
-            mimeType: "text/plain",
-          },
-        ],
-      };
+      return { resources: this.getResources() };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.getResourceTemplates() };
     });
 
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
-
-      switch (uri) {
-        case "coingecko://market/status":
-          return await this.handleMarketStatusResource();
-        case "coingecko://trending/coins":
-          return await this.handleTrendingCoinsResource();
-        case "coingecko://new/coins":
-          return await this.handleNewCoinsResource();
-        case "coingecko://api/info":
-          return await this.handleApiInfoResource();
-        default:
-          throw new Error(`Unknown resource: ${uri}`);
-      }
+      return await this.readResource(request.params.uri);
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.get(request.params.uri)?.();
+      this.subscriptions.delete(request.params.uri);
+      return {};
     });
   }
 
@@ -286,107 +148,128 @@ export class MCPServer {
     };
   }
 
-  getTools() {
-    return [
-      {
-        name: "get_simple_price",
-        description: "Fetch the current price of one or more tokens using CoinGecko's /simple/price endpoint",
-        inputSchema: {
-          type: "object",
-          properties: {
-            ids: {
-              type: "string",
-              description: "Comma-separated list of token IDs (e.g., bitcoin,ethereum)",
-            },
-            vs_currencies: {
-              type: "string",
-              description: "Comma-separated list of quote currencies (e.g., usd,eur,inr)",
-            },
-            include_market_cap: {
-              type: "boolean",
-              description: "Include market cap in the response",
-            },
-            include_24hr_vol: {
-              type: "boolean",
-              description: "Include 24h volume in the response",
-            },
-            include_24hr_change: {
-              type: "boolean",
-              description: "Include 24h price change in the response",
-            },
-            include_last_updated_at: {
-              type: "boolean",
-              description: "Include last update timestamp in the response",
-            },
-            precision: {
-              type: "number",
-              description: "Decimal precision for price values",
-            },
-          },
-          required: ["ids", "vs_currencies"],
+  getCapabilities() {
+    return SERVER_CAPABILITIES;
+  }
+
+  async readResource(uri: string): Promise<ResourceResult> {
+    switch (uri) {
+      case "coingecko://market/status":
+        return await this.handleMarketStatusResource();
+      case "coingecko://trending/coins":
+        return await this.handleTrendingCoinsResource();
+      case "coingecko://new/coins":
+        return await this.handleNewCoinsResource();
+      case "coingecko://categories":
+        return await this.handleCategoriesResource();
+      case "coingecko://api/info":
+        return await this.handleApiInfoResource();
+    }
+
+    const read = this.resourceRouter.match(uri);
+    if (!read) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    return await read();
+  }
+
+  // Parameterised resources, listed by resources/templates/list
+  private createResourceRouter() {
+    return new ResourceRouter<ResourceResult>()
+      .add(
+        {
+          uriTemplate: "coingecko://price/{id}",
+          name: "Coin Price",
+          description: "Live USD price, 24h change, market cap and volume for a CoinGecko coin ID",
+          mimeType: "application/json",
         },
-      },
-      {
-        name: "get_trending_coins",
-        description: "Retrieve trending coins from CoinGecko using /search/trending",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
+        (uri, { id }) => this.handlePriceResource(uri, id)
+      )
+      .add(
+        {
+          uriTemplate: "coingecko://coin/{id}",
+          name: "Coin Profile",
+          description: "Description, links, categories and market data for a CoinGecko coin ID",
+          mimeType: "application/json",
         },
-      },
-      {
-        name: "get_new_coins",
-        description: "Retrieve a list of newly listed coins from CoinGecko using /coins/list/new",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
+        (uri, { id }) => this.handleCoinResource(uri, id)
+      )
+      .add(
+        {
+          uriTemplate: "coingecko://coin/{id}/chart/{days}",
+          name: "Coin Price Chart",
+          description: "USD price, market cap and volume history over the last {days} days (a number or max)",
+          mimeType: "application/json",
         },
-      },
-      {
-        name: "get_token_price_by_address",
-        description: "Fetch USD price & market data for a token using /coins/{chainId}/contract/{tokenAddress}",
-        inputSchema: {
-          type: "object",
-          properties: {
-            chainId: {
-              type: "string",
-              description: "Blockchain identifier used by CoinGecko (e.g., ethereum, polygon-pos, binance-smart-chain)",
-            },
-            tokenAddress: {
-              type: "string",
-              description: "Token contract address",
-            },
-            localization: {
-              type: "string",
-              description: "Include localized language in response (true/false). Default: true",
-            },
-            tickers: {
-              type: "string",
-              description: "Include tickers data (true/false). Default: true",
-            },
-            market_data: {
-              type: "string",
-              description: "Include market data (true/false). Default: true",
-            },
-            community_data: {
-              type: "string",
-              description: "Include community data (true/false). Default: true",
-            },
-            developer_data: {
-              type: "string",
-              description: "Include developer data (true/false). Default: true",
-            },
-            sparkline: {
-              type: "string",
-              description: "Include sparkline 7 days data (true/false). Default: false",
-            },
-          },
-          required: ["chainId", "tokenAddress"],
+        (uri, { id, days }) => this.handleCoinChartResource(uri, id, days)
+      )
+      .add(
+        {
+          uriTemplate: "coingecko://token/{chain}/{address}",
+          name: "Token by Contract",
+          description: "Token data by asset platform and contract address, falling back to DEX prices for unlisted tokens",
+          mimeType: "application/json",
         },
-      },
-    ];
+        (uri, { chain, address }) => this.handleTokenResource(uri, chain, address)
+      );
+  }
+
+  // Registers this session with the shared poller; updates are pushed as notifications/resources/updated
+  private async subscribe(uri: string) {
+    const known = this.getResources().some((r) => r.uri === uri) || this.resourceRouter.match(uri) !== undefined;
+    if (!known) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    if (this.subscriptions.has(uri)) return;
+
+    const { maxSubscriptionsPerSession, maxWatchedResources } = getResourcesConfig();
+    if (this.subscriptions.size >= maxSubscriptionsPerSession) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Subscription limit of ${maxSubscriptionsPerSession} per session reached; unsubscribe from unused resources first`
+      );
+    }
+    const poller = getResourcePoller();
+    if (!poller.hasRoomFor(uri)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `The server is already watching ${maxWatchedResources} resources; try again later`
+      );
+    }
+
+    // A template URI can name a coin or chart that does not exist; never poll those
+    try {
+      await this.readResource(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${uri}: ${error instanceof Error ? error.message : error}`);
+    }
+    // Another request may have subscribed while the resource was read
+    if (this.subscriptions.has(uri)) return;
+
+    const unsubscribe = poller.subscribe(
+      uri,
+      async () => (await this.readResource(uri)).contents.map((c) => c.text).join("\n"),
+      () => {
+        this.server.sendResourceUpdated({ uri }).catch((error) => {
+          console.warn(`⚠️  Could not notify resource update for ${uri}:`, error);
+        });
+      }
+    );
+    this.subscriptions.set(uri, unsubscribe);
+  }
+
+  private unsubscribeAll() {
+    for (const unsubscribe of this.subscriptions.values()) unsubscribe();
+    this.subscriptions.clear();
+  }
+
+  getTools() {
+    return TOOL_REGISTRY.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+    }));
   }
 
   getPrompts() {
@@ -397,7 +280,7 @@ export class MCPServer {
         arguments: [
           {
             name: "tokens",
-            description: "Comma-separated list of crypto tokens (e.g., bitcoin,ethereum,solana)",
+            description: "Comma-separated list of crypto tokens as IDs, tickers or names (e.g., bitcoin,ETH,Solana)",
             required: true,
           },
           {
@@ -409,7 +292,7 @@ export class MCPServer {
       },
       {
         name: "market_analysis",
-        description: "Comprehensive crypto market analysis with trending and new coins",
+        description: "Comprehensive crypto market analysis with global macro context, sector rotation, trending and new coins",
         arguments: [],
       },
       {
@@ -428,6 +311,27 @@ export class MCPServer {
           },
         ],
       },
+      {
+        name: "nft_research",
+        description: "Deep dive research on an NFT collection by CoinGecko ID or contract address",
+        arguments: [
+          {
+            name: "collection",
+            description: "CoinGecko NFT collection ID (e.g., pudgy-penguins). Use this or chain + address",
+            required: false,
+          },
+          {
+            name: "chain",
+            description: "Asset platform of the NFT contract (e.g., ethereum, base)",
+            required: false,
+          },
+          {
+            name: "address",
+            description: "NFT contract address",
+            required: false,
+          },
+        ],
+      },
     ];
   }
 
@@ -436,7 +340,7 @@ export class MCPServer {
       {
         uri: "coingecko://market/status",
         name: "Market Status",
-        description: "Current crypto market overview and statistics",
+        description: "Global market cap, volume, dominance and DeFi share with the 24h trend",
         mimeType: "application/json",
       },
       {
@@ -451,6 +355,24 @@ export class MCPServer {
         description: "Recently listed cryptocurrencies on CoinGecko",
         mimeType: "application/json",
       },
+      {
+        uri: "coingecko://categories",
+        name: "Sector Performance",
+        description: "Largest coin categories by market cap and the biggest 24h sector movers",
+        mimeType: "application/json",
+      },
+      {
+        uri: "coingecko://price/bitcoin",
+        name: "Bitcoin Price",
+        description: "Live BTC price, 24h change, market cap and volume",
+        mimeType: "application/json",
+      },
+      {
+        uri: "coingecko://price/ethereum",
+        name: "Ethereum Price",
+        description: "Live ETH price, 24h change, market cap and volume",
+        mimeType: "application/json",
+      },
       {
         uri: "coingecko://api/info",
         name: "API Information",
@@ -460,210 +382,50 @@ export class MCPServer {
     ];
   }
 
-  async callTool(name: string, args: any) {
-    switch (name) {
-      case "get_simple_price":
-        return await this.handleGetSimplePrice(args);
-      case "get_trending_coins":
-        return await this.handleGetTrendingCoins(args);
-      case "get_new_coins":
-        return await this.handleGetNewCoins(args);
-      case "get_token_price_by_address":
-        return await this.handleGetTokenPriceByAddress(args);
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  }
-
-  // CoinGecko API helper
-  private async callCoinGeckoAPI(endpoint: string, params?: Record<string, string>) {
-    const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
-    const url = new URL(`${COINGECKO_BASE_URL}${endpoint}`);
-    
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null && value !== '') {
-          url.searchParams.append(key, value);
-        }
-      });
-    }
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Accept': 'application/json',
-        'x-cg-demo-api-key': process.env.COINGEKO_API_KEY!
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-    }
-
-    return await response.json();
+  getResourceTemplates() {
+    return this.resourceRouter.templates();
   }
 
-  // CoinGecko Handlers
-  private async handleGetSimplePrice(args: {
-    ids: string;
-    vs_currencies: string;
-    include_market_cap?: boolean;
-    include_24hr_vol?: boolean;
-    include_24hr_change?: boolean;
-    include_last_updated_at?: boolean;
-    precision?: number;
-  }) {
-    try {
-      const params: Record<string, string> = {
-        ids: args.ids,
-        vs_currencies: args.vs_currencies,
-      };
-
-      if (args.include_market_cap !== undefined) params.include_market_cap = String(args.include_market_cap);
-      if (args.include_24hr_vol !== undefined) params.include_24hr_vol = String(args.include_24hr_vol);
-      if (args.include_24hr_change !== undefined) params.include_24hr_change = String(args.include_24hr_change);
-      if (args.include_last_updated_at !== undefined) params.include_last_updated_at = String(args.include_last_updated_at);
-      if (args.precision !== undefined) params.precision = String(args.precision);
-
-      const data = await this.callCoinGeckoAPI("/simple/price", params);
+  async callTool(name: string, args: Record<string, unknown> = {}) {
+    const tool = getToolDefinition(name);
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: true,
-              data,
-              parameters: params
-            }, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error: "Failed to fetch price data",
-              message: error instanceof Error ? error.message : String(error),
-            }, null, 2),
-          },
-        ],
-      };
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
     }
-  }
 
-  private async handleGetTrendingCoins(args: any) {
-    try {
-      const data = await this.callCoinGeckoAPI("/search/trending");
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: true,
-              data,
-              message: "Trending coins fetched successfully"
-            }, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error: "Failed to fetch trending coins",
-              message: error instanceof Error ? error.message : String(error),
-            }, null, 2),
-          },
-        ],
-      };
-    }
+    return await this.runTool(tool, args ?? {});
   }
 
-  private async handleGetNewCoins(args: any) {
+  // Runs a registered tool and returns its result as structuredContent, matching
+  // the tool's outputSchema, with the same JSON as compact text for older clients.
+  // Invalid arguments are protocol errors (-32602); other failures are isError results
+  // carrying the same error envelope as the REST routes.
+  private async runTool(tool: ToolDefinition, args: Record<string, unknown>, requestId: string = randomUUID()) {
     try {
-      const data = await this.callCoinGeckoAPI("/coins/list/new");
+      const { result } = await executeTool(tool, args, this.client);
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({
-              success: true,
-              data,
-              message: "Newly listed coins fetched successfully"
-            }, null, 2),
+            text: JSON.stringify(result),
           },
         ],
+        structuredContent: result,
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error: "Failed to fetch new coins",
-              message: error instanceof Error ? error.message : String(error),
-            }, null, 2),
-          },
-        ],
-      };
-    }
-  }
-
-  private async handleGetTokenPriceByAddress(args: {
-    chainId: string;
-    tokenAddress: string;
-    localization?: string;
-    tickers?: string;
-    market_data?: string;
-    community_data?: string;
-    developer_data?: string;
-    sparkline?: string;
-  }) {
-    try {
-      const { chainId, tokenAddress, ...optionalParams } = args;
-
-      const params: Record<string, string> = {};
-      if (optionalParams.localization !== undefined) params.localization = optionalParams.localization;
-      if (optionalParams.tickers !== undefined) params.tickers = optionalParams.tickers;
-      if (optionalParams.market_data !== undefined) params.market_data = optionalParams.market_data;
-      if (optionalParams.community_data !== undefined) params.community_data = optionalParams.community_data;
-      if (optionalParams.developer_data !== undefined) params.developer_data = optionalParams.developer_data;
-      if (optionalParams.sparkline !== undefined) params.sparkline = optionalParams.sparkline;
-
-      const endpoint = `/coins/${chainId}/contract/${tokenAddress}`;
-      const data = await this.callCoinGeckoAPI(endpoint, Object.keys(params).length > 0 ? params : undefined);
+      // The message lists every offending field, e.g. "precision must be an integer; ids is required"
+      if (error instanceof ToolArgumentError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
 
+      console.error(`❌ [${requestId}] Error running ${tool.name}:`, error);
       return {
+        isError: true,
         content: [
           {
             type: "text",
-            text: JSON.stringify({
-              success: true,
-              data,
-              parameters: {
-                chainId,
-                tokenAddress,
-                ...params
-              }
-            }, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error: "Failed to fetch token data",
-              message: error instanceof Error ? error.message : String(error),
-            }, null, 2),
+            text: JSON.stringify(toErrorEnvelope(error, tool.errorMessage, requestId).body),
           },
         ],
       };
@@ -674,6 +436,29 @@ export class MCPServer {
   private async handleCryptoPriceCheckPrompt(args: any) {
     const tokens = args?.tokens || "bitcoin,ethereum,solana";
     const currencies = args?.currencies || "usd,eur";
+
+    const queries = String(tokens).split(",").map((t: string) => t.trim()).filter(Boolean);
+    const resolution = await resolveCoinIds(this.client, queries);
+    const ids = [...new Set(Object.values(resolution.resolved))].join(",");
+
+    const notes: string[] = [];
+    const renamed = Object.entries(resolution.resolved).filter(([query, id]) => query !== id);
+    if (renamed.length > 0) {
+      notes.push(`Resolved to CoinGecko IDs: ${renamed.map(([query, id]) => `${query} -> ${id}`).join(", ")}.`);
+    }
+    for (const [query, candidates] of Object.entries(resolution.ambiguous)) {
+      notes.push(`"${query}" is ambiguous; candidates: ${candidates.map((c) => `${c.id} (${c.name})`).join(", ")}. Ask which one is meant.`);
+    }
+    if (resolution.unlisted.length > 0) {
+      notes.push(`Not in the cached coin list, passed on as CoinGecko IDs: ${resolution.unlisted.join(", ")}. If they return no price, try search_coins.`);
+    }
+    if (resolution.not_found.length > 0) {
+      notes.push(`No CoinGecko coin found for: ${resolution.not_found.join(", ")}. Try search_coins.`);
+    }
+
+    const request = ids
+      ? `Please check the current prices for ${ids} in ${currencies}. Use the get_simple_price tool with these parameters.`
+      : `None of the requested tokens (${tokens}) could be resolved to a CoinGecko ID.`;
     
     return {
       messages: [
@@ -681,7 +466,7 @@ export class MCPServer {
           role: "user",
           content: {
             type: "text",
-            text: `Please check the current prices for ${tokens} in ${currencies}. Use the get_simple_price tool with these parameters.`,
+            text: [request, ...notes].join("\n\n"),
           },
         },
       ],
@@ -689,13 +474,21 @@ export class MCPServer {
   }
 
   private async handleMarketAnalysisPrompt() {
+    let macro = "";
+    try {
+      const global = await fetchGlobalMarket(this.client);
+      macro = `\n\nCurrent macro snapshot (CoinGecko /global, ${global.updated_at}):\n${JSON.stringify(global, null, 2)}`;
+    } catch (error) {
+      console.warn("⚠️  Global market snapshot unavailable for market_analysis prompt:", error);
+    }
+
     return {
       messages: [
         {
           role: "user",
           content: {
             type: "text",
-            text: `Please provide a comprehensive crypto market analysis. First, get the trending coins using get_trending_coins, then fetch the newly listed coins using get_new_coins. Analyze the data and provide insights about current market trends.`,
+            text: `Please provide a comprehensive crypto market analysis. Start from the macro picture (total market cap, 24h change, BTC/ETH dominance and DeFi share, refreshed with get_global_market if needed). Next, check sector rotation with get_categories ordered by market_cap_change_24h_desc to see which sectors (AI, memes, layer 2, RWA, ...) are gaining or losing. Then get the trending coins using get_trending_coins and fetch the newly listed coins using get_new_coins. Analyze the data and provide insights about current market trends.${macro}`,
           },
         },
       ],
@@ -707,7 +500,7 @@ export class MCPServer {
     const address = args?.address;
     
     if (!address) {
-      throw new Error("Token address is required for token research");
+      throw new McpError(ErrorCode.InvalidParams, "Token address is required for token research");
     }
     
     return {
@@ -723,29 +516,52 @@ export class MCPServer {
     };
   }
 
+  private async handleNftResearchPrompt(args: any) {
+    const collection = args?.collection;
+    const chain = args?.chain || "ethereum";
+    const address = args?.address;
+
+    if (!collection && !address) {
+      throw new McpError(ErrorCode.InvalidParams, "An NFT collection ID or contract address is required for NFT research");
+    }
+
+    const lookup = collection
+      ? `the NFT collection ${collection}. Use the get_nft_collection tool with id=${collection}`
+      : `the NFT collection at contract ${address} on ${chain}. Use the get_nft_by_contract tool with platform=${chain} and address=${address}`;
+
+    return {
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Please research ${lookup} to get floor price, market cap, 24h volume, holder count and their 24h changes. Assess liquidity (volume relative to market cap, daily sales) and holder distribution, and flag any sharp floor or volume moves.`,
+          },
+        },
+      ],
+    };
+  }
+
   // Resource Handlers
   private async handleMarketStatusResource() {
     try {
-      const trendingData = await this.callCoinGeckoAPI("/search/trending") as any;
-      const priceData = await this.callCoinGeckoAPI("/simple/price", {
-        ids: "bitcoin,ethereum",
-        vs_currencies: "usd",
-        include_market_cap: "true",
-        include_24hr_vol: "true",
-        include_24hr_change: "true"
-      });
-      
+      const [global, trendingData] = await Promise.all([
+        fetchGlobalMarket(this.client),
+        this.client.get("/search/trending") as Promise<any>,
+      ]);
+      const change = global.market_cap_change_percentage_24h_usd;
+
       return {
         contents: [
           {
             uri: "coingecko://market/status",
             mimeType: "application/json",
             text: JSON.stringify({
-              status: "active",
+              trend: change > 1 ? "up" : change < -1 ? "down" : "flat",
               timestamp: new Date().toISOString(),
-              topCoins: priceData,
+              ...global,
               trendingCount: trendingData.coins?.length || 0,
-              summary: "Live crypto market data from CoinGecko"
+              summary: `Total market cap ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(2)}% in 24h; BTC dominance ${global.dominance.btc?.toFixed(1) ?? "n/a"}%, DeFi ${global.defi.share_of_total_market_cap?.toFixed(2) ?? "n/a"}% of total`
             }, null, 2),
           },
         ],
@@ -757,7 +573,7 @@ export class MCPServer {
 
   private async handleTrendingCoinsResource() {
     try {
-      const data = await this.callCoinGeckoAPI("/search/trending");
+      const data = await this.client.get("/search/trending");
       
       return {
         contents: [
@@ -775,7 +591,7 @@ export class MCPServer {
 
   private async handleNewCoinsResource() {
     try {
-      const data = await this.callCoinGeckoAPI("/coins/list/new");
+      const data = await this.client.get("/coins/list/new");
       
       return {
         contents: [
@@ -791,26 +607,190 @@ export class MCPServer {
     }
   }
 
+  private async handleCategoriesResource() {
+    try {
+      const categories = await fetchCategories(this.client);
+      const movers = categories
+        .filter((c) => c.market_cap_change_24h !== null && (c.market_cap ?? 0) > 0)
+        .sort((a, b) => b.market_cap_change_24h! - a.market_cap_change_24h!);
+
+      return {
+        contents: [
+          {
+            uri: "coingecko://categories",
+            mimeType: "application/json",
+            text: JSON.stringify({
+              timestamp: new Date().toISOString(),
+              largest: categories.slice(0, 20),
+              top_gainers_24h: movers.slice(0, 5),
+              top_losers_24h: movers.slice(-5).reverse(),
+              total_categories: categories.length,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch categories: ${error}`);
+    }
+  }
+
+  private async handlePriceResource(uri: string, coinId: string): Promise<ResourceResult> {
+    let quote: Record<string, number> | undefined;
+    try {
+      const data = await this.client.get<Record<string, Record<string, number>>>("/simple/price", {
+        ids: coinId,
+        vs_currencies: "usd",
+        include_market_cap: "true",
+        include_24hr_vol: "true",
+        include_24hr_change: "true",
+        include_last_updated_at: "true",
+      });
+      quote = data[coinId.toLowerCase()];
+    } catch (error) {
+      throw new Error(`Failed to fetch price for ${coinId}: ${error}`);
+    }
+    if (!quote) {
+      throw new Error(`Unknown coin: ${coinId}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify({
+            id: coinId.toLowerCase(),
+            price_usd: quote.usd,
+            change_percentage_24h: quote.usd_24h_change,
+            market_cap_usd: quote.usd_market_cap,
+            volume_usd_24h: quote.usd_24h_vol,
+            last_updated_at: quote.last_updated_at ? new Date(quote.last_updated_at * 1000).toISOString() : null,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleCoinResource(uri: string, coinId: string): Promise<ResourceResult> {
+    try {
+      const coin = await this.client.get(`/coins/${pathSegment(coinId, "id")}`, {
+        localization: "false",
+        tickers: "false",
+        community_data: "false",
+        developer_data: "false",
+      });
+      const market = coin.market_data ?? {};
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              id: coin.id,
+              symbol: coin.symbol,
+              name: coin.name,
+              categories: coin.categories,
+              homepage: coin.links?.homepage?.find(Boolean) ?? null,
+              description: coin.description?.en || null,
+              market_cap_rank: coin.market_cap_rank,
+              price_usd: market.current_price?.usd ?? null,
+              market_cap_usd: market.market_cap?.usd ?? null,
+              volume_usd_24h: market.total_volume?.usd ?? null,
+              price_change_percentage_24h: market.price_change_percentage_24h ?? null,
+              price_change_percentage_7d: market.price_change_percentage_7d ?? null,
+              price_change_percentage_30d: market.price_change_percentage_30d ?? null,
+              ath_usd: market.ath?.usd ?? null,
+              ath_change_percentage: market.ath_change_percentage?.usd ?? null,
+              circulating_supply: market.circulating_supply ?? null,
+              total_supply: market.total_supply ?? null,
+              max_supply: market.max_supply ?? null,
+              last_updated: coin.last_updated,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch coin ${coinId}: ${error}`);
+    }
+  }
+
+  private async handleCoinChartResource(uri: string, coinId: string, days: string): Promise<ResourceResult> {
+    if (!CHART_DAYS.test(days)) {
+      throw new Error(`Invalid chart range '${days}': use a number of days or max`);
+    }
+
+    try {
+      const data = await this.client.get(`/coins/${pathSegment(coinId, "id")}/market_chart`, { vs_currency: "usd", days });
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              id: coinId,
+              vs_currency: "usd",
+              days,
+              data: normalizeMarketChart(data),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch chart for ${coinId}: ${error}`);
+    }
+  }
+
+  private async handleTokenResource(uri: string, chain: string, address: string): Promise<ResourceResult> {
+    try {
+      const { parameters, ...result } = await tokenByAddressTool.handler(
+        {
+          chainId: chain,
+          tokenAddress: address,
+          localization: false,
+          tickers: false,
+          community_data: false,
+          developer_data: false,
+        },
+        { client: this.client }
+      );
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch token ${address} on ${chain}: ${error}`);
+    }
+  }
+
   private async handleApiInfoResource() {
+    const settings = getCoinGeckoSettings();
+    const toolList = TOOL_REGISTRY.map((tool, index) => {
+      const lines = [
+        `${index + 1}. ${tool.name} - ${tool.summary}`,
+        `   Endpoint: ${getToolEndpoint(tool)}`,
+      ];
+      if (tool.inputSchema.required.length > 0) {
+        lines.push(`   Required: ${tool.inputSchema.required.join(", ")}`);
+      }
+      return lines.join("\n");
+    }).join("\n\n");
+
     const apiInfo = `CoinGecko API Information
 =============================
 
-Base URL: https://api.coingecko.com/api/v3
+Plan: ${settings.plan}
+Base URL: ${settings.baseUrl}
 
 Available Tools:
-1. get_simple_price - Get current prices for cryptocurrencies
-   Endpoint: /simple/price
-   Required: ids, vs_currencies
-   
-2. get_trending_coins - Get trending cryptocurrencies
-   Endpoint: /search/trending
-   
-3. get_new_coins - Get newly listed coins
-   Endpoint: /coins/list/new
-   
-4. get_token_price_by_address - Get token info by contract address
-   Endpoint: /coins/{chainId}/contract/{tokenAddress}
-   Required: chainId, tokenAddress
+${toolList}
 
 Supported Blockchains:
 - ethereum
@@ -823,11 +803,14 @@ Supported Blockchains:
 - And many more...
 
 Rate Limits:
-- Demo API: 30 calls/minute
-- Pro API: Higher limits available
+- Current plan: ${settings.rateLimitPerMinute} calls/minute
+- Demo API: ${COINGECKO_PLANS.demo.rateLimitPerMinute} calls/minute
+- Pro API: ${COINGECKO_PLANS.pro.rateLimitPerMinute}+ calls/minute depending on subscription
 
 Authentication:
-- API Key via x-cg-demo-api-key header
+${settings.apiKeyHeader
+  ? `- API Key via ${settings.apiKeyHeader} header (${settings.apiKey ? "configured" : "missing"})`
+  : "- None (public keyless access)"}
 `;
     
     return {
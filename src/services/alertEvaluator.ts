@@ -0,0 +1,161 @@
+import { getAlertsConfig } from "../config/alerts.config.js";
+import { getAlertStore, type AlertStore, type PriceAlert } from "./alerts.store.js";
+import { getCoinGeckoClient, type CoinGeckoClient } from "./coingecko.client.js";
+import { deliverWebhook, type WebhookOptions } from "./webhook.js";
+
+type SimplePriceData = Record<string, Record<string, number>>;
+
+export interface AlertEvaluatorOptions {
+  pollIntervalMs: number;
+  webhook: WebhookOptions;
+}
+
+// Value an alert compares against its threshold, if CoinGecko returned one
+const readValue = (alert: PriceAlert, quote: Record<string, number> | undefined): number | undefined => {
+  if (!quote) return undefined;
+  const key = alert.condition.startsWith("price_") ? alert.vs_currency : `${alert.vs_currency}_24h_change`;
+  return typeof quote[key] === "number" ? quote[key] : undefined;
+};
+
+const isMet = (alert: PriceAlert, value: number): boolean => {
+  return alert.condition.endsWith("_above") ? value > alert.threshold : value < alert.threshold;
+};
+
+/**
+ * Polls prices for active alerts, one /simple/price request per quote
+ * currency, and fires a webhook when an alert's condition starts to hold.
+ */
+export class AlertEvaluator {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private store: AlertStore,
+    private client: CoinGeckoClient,
+    private options: AlertEvaluatorOptions
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.evaluate(), this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async evaluate(): Promise<void> {
+    // Skip a tick rather than overlap when CoinGecko is slow
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const active = (await this.store.list()).filter((alert) => alert.status === "active");
+      const byCurrency = new Map<string, PriceAlert[]>();
+      for (const alert of active) {
+        const alerts = byCurrency.get(alert.vs_currency) ?? [];
+        alerts.push(alert);
+        byCurrency.set(alert.vs_currency, alerts);
+      }
+
+      for (const [currency, alerts] of byCurrency) {
+        let prices: SimplePriceData;
+        try {
+          prices = await this.client.get<SimplePriceData>("/simple/price", {
+            ids: [...new Set(alerts.map((alert) => alert.coin_id))].join(","),
+            vs_currencies: currency,
+            include_24hr_change: "true",
+          });
+        } catch (error) {
+          console.warn(`⚠️  Alert evaluation for ${currency} failed:`, error);
+          continue;
+        }
+
+        for (const alert of alerts) {
+          await this.check(alert, readValue(alert, prices[alert.coin_id]));
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async check(alert: PriceAlert, value: number | undefined) {
+    if (value === undefined) return;
+
+    const now = new Date().toISOString();
+    const met = isMet(alert, value);
+
+    if (!met || !alert.armed) {
+      await this.store.update(alert.id, {
+        last_value: value,
+        last_checked_at: now,
+        // A repeating alert re-arms once its condition stops holding
+        ...(!met && { armed: true }),
+      });
+      return;
+    }
+
+    const fired = await this.store.update(alert.id, {
+      last_value: value,
+      last_checked_at: now,
+      armed: false,
+      status: alert.repeat ? "active" : "triggered",
+      triggered_at: now,
+      trigger_count: alert.trigger_count + 1,
+    });
+    if (!fired) return;
+
+    console.log(`🔔 Alert ${alert.id}: ${alert.coin_id} ${alert.condition} ${alert.threshold} (${value})`);
+    // Delivery retries can take minutes, so they run outside the polling loop
+    void this.notify(fired, value, now);
+  }
+
+  private async notify(alert: PriceAlert, value: number, triggeredAt: string) {
+    const payload = {
+      event: "price_alert.triggered",
+      alert: {
+        id: alert.id,
+        coin_id: alert.coin_id,
+        vs_currency: alert.vs_currency,
+        condition: alert.condition,
+        threshold: alert.threshold,
+        repeat: alert.repeat,
+      },
+      value,
+      triggered_at: triggeredAt,
+      trigger_count: alert.trigger_count,
+    };
+
+    const result = await deliverWebhook(alert.webhook_url, payload, alert.secret, this.options.webhook);
+    if (!result.delivered) {
+      console.warn(`⚠️  Alert ${alert.id} webhook not delivered after ${result.attempts} attempts (status ${result.status})`);
+    }
+
+    await this.store.update(alert.id, {
+      last_delivery: {
+        delivered: result.delivered,
+        attempts: result.attempts,
+        http_status: result.status,
+        at: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+let sharedEvaluator: AlertEvaluator | undefined;
+
+// Starts the background evaluator unless alerts are disabled
+export const startAlertEvaluator = (): AlertEvaluator | undefined => {
+  const config = getAlertsConfig();
+  if (!config.enabled) return undefined;
+
+  sharedEvaluator ??= new AlertEvaluator(getAlertStore(), getCoinGeckoClient().withoutTrace(), {
+    pollIntervalMs: config.pollIntervalMs,
+    webhook: config.webhook,
+  });
+  sharedEvaluator.start();
+  return sharedEvaluator;
+};
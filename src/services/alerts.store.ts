@@ -0,0 +1,149 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getAlertsConfig } from "../config/alerts.config.js";
+
+export const ALERT_CONDITIONS = ["price_above", "price_below", "change_24h_above", "change_24h_below"] as const;
+
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+export interface AlertDelivery {
+  delivered: boolean;
+  attempts: number;
+  http_status: number | null;
+  at: string;
+}
+
+export interface PriceAlert {
+  id: string;
+  coin_id: string;
+  vs_currency: string;
+  condition: AlertCondition;
+  threshold: number;
+  webhook_url: string;
+  // HMAC key for webhook signatures; only shown when the alert is created
+  secret: string;
+  // SHA-256 of the owner token that may list and delete the alert
+  owner: string;
+  // Repeating alerts re-arm once the condition clears; others fire once
+  repeat: boolean;
+  status: "active" | "triggered";
+  armed: boolean;
+  created_at: string;
+  triggered_at: string | null;
+  trigger_count: number;
+  last_value: number | null;
+  last_checked_at: string | null;
+  last_delivery: AlertDelivery | null;
+}
+
+export type NewPriceAlert = Pick<PriceAlert, "coin_id" | "vs_currency" | "condition" | "threshold" | "webhook_url" | "repeat" | "owner">;
+
+// Owner tokens are handed to the caller once; only their hash is stored
+export const createOwnerToken = (): string => randomBytes(24).toString("base64url");
+
+export const hashOwnerToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+/**
+ * Price alerts held in memory and written through to a JSON file, so they
+ * survive restarts. Writes are serialised and replace the file atomically.
+ */
+export class AlertStore {
+  private alerts = new Map<string, PriceAlert>();
+  private loaded?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private file: string | null) {}
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      if (!this.file) return;
+      try {
+        const stored: PriceAlert[] = JSON.parse(await readFile(this.file, "utf8"));
+        for (const alert of stored) this.alerts.set(alert.id, alert);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.warn(`⚠️  Could not read alerts from ${this.file}:`, error);
+        }
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const file = this.file;
+    if (!file) return Promise.resolve();
+
+    const snapshot = JSON.stringify([...this.alerts.values()], null, 2);
+    this.writes = this.writes.then(async () => {
+      try {
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(`${file}.tmp`, snapshot, "utf8");
+        await rename(`${file}.tmp`, file);
+      } catch (error) {
+        console.warn(`⚠️  Could not write alerts to ${file}:`, error);
+      }
+    });
+    return this.writes;
+  }
+
+  async list(): Promise<PriceAlert[]> {
+    await this.load();
+    return [...this.alerts.values()];
+  }
+
+  async listByOwner(owner: string): Promise<PriceAlert[]> {
+    return (await this.list()).filter((alert) => alert.owner === owner);
+  }
+
+  async get(id: string): Promise<PriceAlert | undefined> {
+    await this.load();
+    return this.alerts.get(id);
+  }
+
+  async create(input: NewPriceAlert): Promise<PriceAlert> {
+    await this.load();
+    const alert: PriceAlert = {
+      id: randomUUID(),
+      ...input,
+      secret: randomBytes(24).toString("hex"),
+      status: "active",
+      armed: true,
+      created_at: new Date().toISOString(),
+      triggered_at: null,
+      trigger_count: 0,
+      last_value: null,
+      last_checked_at: null,
+      last_delivery: null,
+    };
+    this.alerts.set(alert.id, alert);
+    await this.persist();
+    return alert;
+  }
+
+  // Returns undefined if the alert was deleted in the meantime
+  async update(id: string, changes: Partial<PriceAlert>): Promise<PriceAlert | undefined> {
+    await this.load();
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+
+    Object.assign(alert, changes);
+    await this.persist();
+    return alert;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.alerts.delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+}
+
+let sharedStore: AlertStore | undefined;
+
+// Process-wide store shared by the alert tools and the evaluator
+export const getAlertStore = (): AlertStore => {
+  sharedStore ??= new AlertStore(getAlertsConfig().file);
+  return sharedStore;
+};
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheStoreType } from "../config/cache.config.js";
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get<T = unknown>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T = unknown>(key: string, value: T, ttlSeconds: number): Promise<CacheEntry<T>>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const isFresh = (entry: CacheEntry) => entry.expiresAt > Date.now();
+
+const createEntry = <T>(value: T, ttlSeconds: number): CacheEntry<T> => {
+  const storedAt = Date.now();
+  return { value, storedAt, expiresAt: storedAt + ttlSeconds * 1000 };
+};
+
+export interface MemoryCacheOptions {
+  maxEntries: number;
+  sweepIntervalMs: number;
+}
+
+/**
+ * Process-local store holding at most maxEntries entries. The Map keeps
+ * entries in least recently used order, so the oldest one is evicted when
+ * full; expired entries are also swept periodically so keys that are never
+ * read again do not pile up.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private options: MemoryCacheOptions) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (!isFresh(entry)) return undefined;
+
+    // Re-inserted to mark it as most recently used
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number) {
+    const entry = createEntry(value, ttlSeconds);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+    this.start();
+    return entry;
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+    if (this.entries.size === 0) this.stop();
+  }
+
+  async clear() {
+    this.entries.clear();
+    this.stop();
+  }
+
+  sweep() {
+    for (const [key, entry] of this.entries) {
+      if (!isFresh(entry)) this.entries.delete(key);
+    }
+    if (this.entries.size === 0) this.stop();
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), this.options.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  private stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+// One JSON file per key, so cached data survives restarts
+export class FileCacheStore implements CacheStore {
+  constructor(private dir: string) {}
+
+  private fileFor(key: string) {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get<T>(key: string) {
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await readFile(this.fileFor(key), "utf8"));
+    } catch {
+      return undefined;
+    }
+    if (!isFresh(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number) {
+    const entry = createEntry(value, ttlSeconds);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.fileFor(key), JSON.stringify(entry), "utf8");
+    return entry;
+  }
+
+  async delete(key: string) {
+    await rm(this.fileFor(key), { force: true });
+  }
+
+  async clear() {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+export const createCacheStore = (type: CacheStoreType, fileDir: string, memory: MemoryCacheOptions): CacheStore => {
+  return type === "file" ? new FileCacheStore(fileDir) : new MemoryCacheStore(memory);
+};
+
+export type CacheStatus = "HIT" | "MISS" | "BYPASS";
+
+export interface CacheLookup {
+  status: CacheStatus;
+  // When the returned data was fetched from CoinGecko
+  storedAt: number;
+}
+
+/**
+ * Collects cache lookups made while serving one tool call, so the caller
+ * can report an overall cache status and the age of the oldest data used.
+ */
+export class CacheTrace {
+  private lookups: CacheLookup[] = [];
+
+  record(lookup: CacheLookup) {
+    this.lookups.push(lookup);
+  }
+
+  get status(): CacheStatus {
+    if (this.lookups.length === 0 || this.lookups.some((l) => l.status === "BYPASS")) return "BYPASS";
+    return this.lookups.every((l) => l.status === "HIT") ? "HIT" : "MISS";
+  }
+
+  get cachedAt(): Date | undefined {
+    if (this.lookups.length === 0) return undefined;
+    return new Date(Math.min(...this.lookups.map((l) => l.storedAt)));
+  }
+}
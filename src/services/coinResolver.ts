@@ -0,0 +1,157 @@
+import type { CoinGeckoClient } from "./coingecko.client.js";
+
+interface CoinListEntry {
+  id: string;
+  symbol: string;
+  name: string;
+}
+
+export interface CoinCandidate extends CoinListEntry {
+  market_cap_rank: number | null;
+  market_cap: number | null;
+}
+
+export interface CoinResolution {
+  // Input query -> CoinGecko ID, for every query that resolved
+  resolved: Record<string, string>;
+  // Queries matching several coins, with candidates ordered by market cap
+  ambiguous: Record<string, CoinCandidate[]>;
+  // Queries missing from the cached coin list, passed through in resolved as
+  // raw IDs so coins listed since the list was cached can still be priced
+  unlisted: string[];
+  not_found: string[];
+}
+
+interface CoinIndex {
+  storedAt: number;
+  byId: Map<string, CoinListEntry>;
+  bySymbol: Map<string, CoinListEntry[]>;
+  byName: Map<string, CoinListEntry[]>;
+}
+
+// A symbol resolves to its largest coin when that coin is this many times bigger than the runner-up
+const DOMINANCE_FACTOR = 10;
+const MAX_CANDIDATES = 10;
+
+let cachedIndex: CoinIndex | undefined;
+
+const addTo = (map: Map<string, CoinListEntry[]>, key: string, entry: CoinListEntry) => {
+  const list = map.get(key);
+  if (list) list.push(entry);
+  else map.set(key, [entry]);
+};
+
+// Builds lookup maps from /coins/list, reusing them until the cached list is refreshed
+const getIndex = async (client: CoinGeckoClient): Promise<CoinIndex> => {
+  const { data, storedAt } = await client.getWithMeta<CoinListEntry[]>("/coins/list");
+  if (cachedIndex && cachedIndex.storedAt === storedAt) return cachedIndex;
+
+  const index: CoinIndex = { storedAt, byId: new Map(), bySymbol: new Map(), byName: new Map() };
+  for (const entry of data) {
+    index.byId.set(entry.id, entry);
+    addTo(index.bySymbol, entry.symbol.toLowerCase(), entry);
+    addTo(index.byName, entry.name.toLowerCase(), entry);
+  }
+
+  cachedIndex = index;
+  return index;
+};
+
+// Attaches market cap data so ambiguous matches can be ranked
+const rankCandidates = async (client: CoinGeckoClient, entries: CoinListEntry[]): Promise<CoinCandidate[]> => {
+  const markets = await client.get<Array<{ id: string; market_cap: number | null; market_cap_rank: number | null }>>(
+    "/coins/markets",
+    { vs_currency: "usd", ids: entries.map((e) => e.id).join(","), per_page: "250" }
+  );
+  const byId = new Map(markets.map((m) => [m.id, m]));
+
+  return entries
+    .map((entry) => ({
+      ...entry,
+      market_cap: byId.get(entry.id)?.market_cap ?? null,
+      market_cap_rank: byId.get(entry.id)?.market_cap_rank ?? null,
+    }))
+    .sort((a, b) => (b.market_cap ?? 0) - (a.market_cap ?? 0));
+};
+
+/**
+ * Maps CoinGecko IDs, tickers ("BTC") and names ("Solana") to CoinGecko IDs.
+ * Exact IDs always win; a ticker shared by several coins resolves only when
+ * one of them clearly dominates by market cap, otherwise it is reported as
+ * ambiguous. Queries the coin list does not know, or every query if the
+ * list is unavailable, pass through as IDs; settleUnlisted moves those
+ * CoinGecko did not price to not_found.
+ */
+export const resolveCoinIds = async (client: CoinGeckoClient, queries: string[]): Promise<CoinResolution> => {
+  const resolution: CoinResolution = { resolved: {}, ambiguous: {}, unlisted: [], not_found: [] };
+  const lookups = client.withoutTrace();
+
+  let index: CoinIndex;
+  try {
+    index = await getIndex(lookups);
+  } catch (error) {
+    console.warn("⚠️  Coin list unavailable, treating queries as CoinGecko IDs:", error);
+    for (const query of queries) {
+      resolution.resolved[query] = query.trim().toLowerCase();
+      resolution.unlisted.push(query);
+    }
+    return resolution;
+  }
+
+  const multiMatches = new Map<string, CoinListEntry[]>();
+
+  for (const query of queries) {
+    const key = query.trim().toLowerCase();
+    if (!key) continue;
+
+    const exact = index.byId.get(key);
+    if (exact) {
+      resolution.resolved[query] = exact.id;
+      continue;
+    }
+
+    const matches = [...new Set([...(index.bySymbol.get(key) ?? []), ...(index.byName.get(key) ?? [])])];
+    if (matches.length === 0) {
+      resolution.resolved[query] = key;
+      resolution.unlisted.push(query);
+    } else if (matches.length === 1) resolution.resolved[query] = matches[0].id;
+    else multiMatches.set(query, matches);
+  }
+
+  if (multiMatches.size === 0) return resolution;
+
+  const allEntries = [...new Map([...multiMatches.values()].flat().map((e) => [e.id, e])).values()];
+  let ranked: Map<string, CoinCandidate>;
+  try {
+    ranked = new Map((await rankCandidates(lookups, allEntries.slice(0, 250))).map((c) => [c.id, c]));
+  } catch (error) {
+    console.warn("⚠️  Could not rank ambiguous coins:", error);
+    ranked = new Map();
+  }
+
+  for (const [query, matches] of multiMatches) {
+    const candidates = matches
+      .map((entry) => ranked.get(entry.id) ?? { ...entry, market_cap: null, market_cap_rank: null })
+      .sort((a, b) => (b.market_cap ?? 0) - (a.market_cap ?? 0));
+
+    const [top, runnerUp] = candidates;
+    if (top.market_cap && (!runnerUp.market_cap || top.market_cap >= runnerUp.market_cap * DOMINANCE_FACTOR)) {
+      resolution.resolved[query] = top.id;
+    } else {
+      resolution.ambiguous[query] = candidates.slice(0, MAX_CANDIDATES);
+    }
+  }
+
+  return resolution;
+};
+
+// Reports unlisted queries as not_found once CoinGecko has not returned their IDs either
+export const settleUnlisted = (resolution: CoinResolution, isKnown: (id: string) => boolean): CoinResolution => {
+  for (const query of resolution.unlisted) {
+    if (isKnown(resolution.resolved[query])) continue;
+    delete resolution.resolved[query];
+    resolution.not_found.push(query);
+  }
+  resolution.unlisted = resolution.unlisted.filter((query) => query in resolution.resolved);
+  return resolution;
+};
@@ -0,0 +1,341 @@
+import { COINGECKO_CONFIG, getCoinGeckoSettings } from "../config/coingecko.config.js";
+import { getCacheConfig, type CacheTtlRule } from "../config/cache.config.js";
+import { createCacheStore, type CacheLookup, type CacheStore, type CacheTrace } from "./cache.store.js";
+import { SimplePriceBatcher } from "./priceBatcher.js";
+import { TokenBucket } from "./rateLimiter.js";
+import {
+  CoinGeckoAuthError,
+  CoinGeckoError,
+  CoinGeckoNotFoundError,
+  CoinGeckoRateLimitError,
+  CoinGeckoTimeoutError,
+  CoinGeckoUpstreamError,
+} from "./coingecko.errors.js";
+
+export type CoinGeckoParams = Record<string, string | undefined>;
+
+export interface CoinGeckoClientOptions {
+  baseUrl?: string;
+  apiKeyHeader?: string | null;
+  apiKey?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxRetryAfterMs?: number;
+  // Upstream calls allowed per minute; 0 disables client-side limiting
+  rateLimitPerMinute?: number;
+  // Response cache; null disables caching
+  cacheStore?: CacheStore | null;
+  cacheTtls?: CacheTtlRule[];
+  defaultCacheTtlSeconds?: number;
+  // /simple/price batching window; 0 disables batching
+  priceBatchWindowMs?: number;
+  priceBatchMaxIds?: number;
+}
+
+export interface CoinGeckoResult<T> extends CacheLookup {
+  data: T;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+};
+
+// Comma-separated params whose order and case do not change the response
+const LIST_PARAMS = new Set(["ids", "vs_currencies"]);
+
+// Drops empty values, sorts keys and canonicalises list params so equivalent
+// requests share a cache entry and an in-flight request
+const normalizeParams = (params?: CoinGeckoParams): CoinGeckoParams => {
+  const normalized: CoinGeckoParams = {};
+
+  for (const key of Object.keys(params ?? {}).sort()) {
+    const value = params![key];
+    if (value === undefined || value === null || value === '') continue;
+
+    normalized[key] = LIST_PARAMS.has(key)
+      ? [...new Set(value.split(",").map((v) => v.trim().toLowerCase()).filter(Boolean))].sort().join(",")
+      : value;
+  }
+
+  return normalized;
+};
+
+// Matches an endpoint against a TTL rule, "*" standing for one path segment
+const matchesEndpoint = (pattern: string, endpoint: string): boolean => {
+  const patternParts = pattern.split("/");
+  const endpointParts = endpoint.split("/");
+  return patternParts.length === endpointParts.length &&
+    patternParts.every((part, i) => part === "*" || part === endpointParts[i]);
+};
+
+/**
+ * CoinGecko REST client
+ * Serves responses from the cache while fresh, coalesces identical in-flight
+ * requests, batches /simple/price lookups, spaces calls to the plan's rate
+ * limit, retries 5xx and network errors with jittered exponential backoff,
+ * honours Retry-After on 429 and maps failures to typed errors.
+ */
+export class CoinGeckoClient {
+  private options: Required<Omit<CoinGeckoClientOptions, "apiKey">> & Pick<CoinGeckoClientOptions, "apiKey">;
+  private trace?: CacheTrace;
+  // Upstream requests in progress, keyed by normalised URL
+  private inflight = new Map<string, Promise<CoinGeckoResult<any>>>();
+  private priceBatcher: SimplePriceBatcher;
+  private rateLimiter?: TokenBucket;
+
+  constructor(options: CoinGeckoClientOptions = {}) {
+    const settings = getCoinGeckoSettings();
+
+    this.options = {
+      baseUrl: settings.baseUrl,
+      apiKeyHeader: settings.apiKeyHeader,
+      apiKey: settings.apiKey,
+      rateLimitPerMinute: settings.rateLimitPerMinute,
+      timeoutMs: COINGECKO_CONFIG.timeoutMs,
+      ...COINGECKO_CONFIG.retry,
+      cacheStore: null,
+      cacheTtls: [],
+      defaultCacheTtlSeconds: 0,
+      priceBatchWindowMs: COINGECKO_CONFIG.priceBatching.windowMs,
+      priceBatchMaxIds: COINGECKO_CONFIG.priceBatching.maxIds,
+      ...options,
+    };
+
+    const { rateLimitPerMinute } = this.options;
+    if (rateLimitPerMinute > 0) {
+      this.rateLimiter = new TokenBucket({
+        ratePerMinute: rateLimitPerMinute,
+        burst: Math.max(1, Math.ceil((rateLimitPerMinute * COINGECKO_CONFIG.rateLimit.burstSeconds) / 60)),
+      });
+    }
+
+    this.priceBatcher = new SimplePriceBatcher(
+      (params) => this.fetchWithRetry(this.buildUrl("/simple/price", params), "/simple/price"),
+      { windowMs: this.options.priceBatchWindowMs, maxIds: this.options.priceBatchMaxIds }
+    );
+  }
+
+  // View of this client that records cache lookups into the given trace
+  withTrace(trace: CacheTrace): CoinGeckoClient {
+    const view = Object.create(this) as CoinGeckoClient;
+    view.trace = trace;
+    return view;
+  }
+
+  // View of this client whose lookups are not recorded, for auxiliary data
+  withoutTrace(): CoinGeckoClient {
+    const view = Object.create(this) as CoinGeckoClient;
+    view.trace = undefined;
+    return view;
+  }
+
+  async get<T = any>(endpoint: string, params?: CoinGeckoParams): Promise<T> {
+    return (await this.getWithMeta<T>(endpoint, params)).data;
+  }
+
+  async getWithMeta<T = any>(endpoint: string, params?: CoinGeckoParams): Promise<CoinGeckoResult<T>> {
+    const normalized = normalizeParams(params);
+    const url = this.buildUrl(endpoint, normalized);
+    const ttlSeconds = this.getTtlSeconds(endpoint);
+    const store = ttlSeconds > 0 ? this.options.cacheStore : null;
+
+    let result = store ? await this.readCache<T>(store, url, endpoint) : undefined;
+    if (!result) {
+      result = await this.singleFlight<T>(url, async () => {
+        const data = await this.fetchUpstream<T>(endpoint, url, normalized);
+        if (!store) {
+          return { data, status: "BYPASS", storedAt: Date.now() };
+        }
+        return { data, status: "MISS", storedAt: await this.writeCache(store, url, endpoint, data, ttlSeconds) };
+      });
+    }
+
+    this.trace?.record({ status: result.status, storedAt: result.storedAt });
+    return result;
+  }
+
+  // Concurrent callers with the same key share one upstream request
+  private singleFlight<T>(key: string, run: () => Promise<CoinGeckoResult<T>>): Promise<CoinGeckoResult<T>> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing;
+
+    const promise = run().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private fetchUpstream<T>(endpoint: string, url: string, params: CoinGeckoParams): Promise<T> {
+    if (endpoint === "/simple/price" && this.options.priceBatchWindowMs > 0) {
+      return this.priceBatcher.fetch(params) as Promise<T>;
+    }
+    return this.fetchWithRetry<T>(url, endpoint);
+  }
+
+  private async readCache<T>(store: CacheStore, key: string, endpoint: string): Promise<CoinGeckoResult<T> | undefined> {
+    try {
+      const cached = await store.get<T>(key);
+      if (cached) {
+        return { data: cached.value, status: "HIT", storedAt: cached.storedAt };
+      }
+    } catch (error) {
+      console.warn(`⚠️  Cache read failed for ${endpoint}:`, error);
+    }
+    return undefined;
+  }
+
+  // Returns when the data was stored, falling back to now if the write fails
+  private async writeCache<T>(store: CacheStore, key: string, endpoint: string, data: T, ttlSeconds: number): Promise<number> {
+    try {
+      return (await store.set(key, data, ttlSeconds)).storedAt;
+    } catch (error) {
+      console.warn(`⚠️  Cache write failed for ${endpoint}:`, error);
+      return Date.now();
+    }
+  }
+
+  private getTtlSeconds(endpoint: string): number {
+    const rule = this.options.cacheTtls.find((r) => matchesEndpoint(r.endpoint, endpoint));
+    return rule ? rule.ttlSeconds : this.options.defaultCacheTtlSeconds;
+  }
+
+  private async fetchWithRetry<T>(url: string, endpoint: string): Promise<T> {
+    const { maxRetries } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce<T>(url, endpoint);
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt);
+        if (delay === undefined || attempt >= maxRetries) throw error;
+
+        console.warn(`⏳ CoinGecko ${endpoint} failed (${(error as Error).message}), retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private buildUrl(endpoint: string, params?: CoinGeckoParams): string {
+    const url = new URL(`${this.options.baseUrl}${endpoint}`);
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          url.searchParams.append(key, value);
+        }
+      });
+    }
+
+    return url.toString();
+  }
+
+  // Waits for the rate limiter, failing fast when the wait exceeds what a 429 would be retried after
+  private async throttle(endpoint: string) {
+    if (!this.rateLimiter) return;
+
+    const wait = this.rateLimiter.waitMs;
+    if (wait > this.options.maxRetryAfterMs) {
+      throw new CoinGeckoRateLimitError(endpoint, wait);
+    }
+    await sleep(this.rateLimiter.reserve());
+  }
+
+  private async fetchOnce<T>(url: string, endpoint: string): Promise<T> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    const { apiKey, apiKeyHeader } = this.options;
+    if (apiKey && apiKeyHeader) headers[apiKeyHeader] = apiKey;
+
+    await this.throttle(endpoint);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    // The timeout also covers reading the body, so a stalled response cannot hang
+    try {
+      return await this.request<T>(url, endpoint, headers, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new CoinGeckoTimeoutError(endpoint, this.options.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async request<T>(url: string, endpoint: string, headers: Record<string, string>, signal: AbortSignal): Promise<T> {
+    let response: globalThis.Response;
+    try {
+      response = await fetch(url, { headers, signal });
+    } catch (error) {
+      throw new CoinGeckoUpstreamError(
+        `CoinGecko request failed: ${error instanceof Error ? error.message : String(error)}`,
+        endpoint
+      );
+    }
+
+    if (response.ok) {
+      return await response.json() as T;
+    }
+
+    const { status, statusText } = response;
+
+    if (status === 429) {
+      throw new CoinGeckoRateLimitError(endpoint, parseRetryAfter(response.headers.get("retry-after")));
+    }
+    if (status === 404) {
+      throw new CoinGeckoNotFoundError(endpoint);
+    }
+    if (status === 401 || status === 403) {
+      throw new CoinGeckoAuthError(endpoint, status);
+    }
+    if (status >= 500) {
+      throw new CoinGeckoUpstreamError(`CoinGecko API error: ${status} ${statusText}`, endpoint, status);
+    }
+
+    throw new CoinGeckoError(`CoinGecko API error: ${status} ${statusText}`, endpoint, status);
+  }
+
+  // Delay before the next attempt, or undefined when the error is not retryable
+  private getRetryDelay(error: unknown, attempt: number): number | undefined {
+    const { baseDelayMs, maxDelayMs, maxRetryAfterMs } = this.options;
+
+    if (error instanceof CoinGeckoRateLimitError) {
+      if (error.retryAfterMs !== undefined) {
+        return error.retryAfterMs <= maxRetryAfterMs ? error.retryAfterMs : undefined;
+      }
+    } else if (!(error instanceof CoinGeckoUpstreamError)) {
+      return undefined;
+    }
+
+    // Full jitter: uniform in [0, min(max, base * 2^attempt)]
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+let sharedClient: CoinGeckoClient | undefined;
+
+// Process-wide client shared by MCP handlers and REST routes
+export const getCoinGeckoClient = (): CoinGeckoClient => {
+  if (!sharedClient) {
+    const cache = getCacheConfig();
+    sharedClient = new CoinGeckoClient({
+      cacheStore: cache.enabled ? createCacheStore(cache.store, cache.fileDir, cache.memory) : null,
+      cacheTtls: cache.ttls,
+      defaultCacheTtlSeconds: cache.defaultTtlSeconds,
+    });
+  }
+  return sharedClient;
+};
@@ -0,0 +1,58 @@
+/**
+ * Typed errors raised by the CoinGecko client so callers can tell a rate
+ * limit from a missing coin or an upstream outage.
+ */
+export class CoinGeckoError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "CoinGeckoError";
+  }
+}
+
+// 429 - the plan's call budget is exhausted
+export class CoinGeckoRateLimitError extends CoinGeckoError {
+  constructor(endpoint: string, public readonly retryAfterMs?: number) {
+    super("CoinGecko rate limit exceeded", endpoint, 429);
+    this.name = "CoinGeckoRateLimitError";
+  }
+
+  get retryAfterSeconds(): number | undefined {
+    return this.retryAfterMs === undefined ? undefined : Math.ceil(this.retryAfterMs / 1000);
+  }
+}
+
+// 404 - unknown coin, contract address or endpoint
+export class CoinGeckoNotFoundError extends CoinGeckoError {
+  constructor(endpoint: string) {
+    super(`CoinGecko resource not found: ${endpoint}`, endpoint, 404);
+    this.name = "CoinGeckoNotFoundError";
+  }
+}
+
+// 401/403 - missing, invalid or under-privileged API key
+export class CoinGeckoAuthError extends CoinGeckoError {
+  constructor(endpoint: string, status: number) {
+    super(`CoinGecko rejected the API key (${status})`, endpoint, status);
+    this.name = "CoinGeckoAuthError";
+  }
+}
+
+// 5xx or network failure after retries were exhausted
+export class CoinGeckoUpstreamError extends CoinGeckoError {
+  constructor(message: string, endpoint: string, status?: number) {
+    super(message, endpoint, status);
+    this.name = "CoinGeckoUpstreamError";
+  }
+}
+
+// Request exceeded the per-attempt timeout on every attempt
+export class CoinGeckoTimeoutError extends CoinGeckoUpstreamError {
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`CoinGecko request timed out after ${timeoutMs}ms`, endpoint);
+    this.name = "CoinGeckoTimeoutError";
+  }
+}
@@ -0,0 +1,13 @@
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+// EVM addresses are case-insensitive and keyed in lowercase; others (e.g. Solana) are case-sensitive
+export const normalizeContractAddress = (address: string): string => {
+  const trimmed = address.trim();
+  return EVM_ADDRESS.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+};
+
+// Accepts an array or a comma-separated string and returns unique normalised addresses
+export const parseContractAddresses = (value: string | string[]): string[] => {
+  const list = Array.isArray(value) ? value : String(value).split(",");
+  return [...new Set(list.map(normalizeContractAddress).filter(Boolean))];
+};
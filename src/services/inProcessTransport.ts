@@ -0,0 +1,55 @@
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  type MessageExtraInfo,
+  isJSONRPCError,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * SDK transport that lets a plain HTTP handler hand single messages to a
+ * long-lived MCP Server and await the reply. Request IDs are swapped for
+ * internal ones while in flight, so concurrent callers that reuse IDs do
+ * not collide. Server-initiated messages have no channel back and are
+ * dropped.
+ */
+export class InProcessTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  private pending = new Map<RequestId, { id: RequestId; resolve: (message: JSONRPCMessage) => void }>();
+  private nextId = 0;
+
+  async start() {}
+
+  async close() {
+    this.pending.clear();
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage) {
+    if (!isJSONRPCResponse(message) && !isJSONRPCError(message)) return;
+
+    const waiter = this.pending.get(message.id);
+    if (!waiter) return;
+    this.pending.delete(message.id);
+    waiter.resolve({ ...message, id: waiter.id });
+  }
+
+  // Delivers a client message; resolves with the response, or undefined for notifications.
+  // `extra` carries the HTTP request info handlers see over the other transports.
+  dispatch(message: JSONRPCMessage, extra?: MessageExtraInfo): Promise<JSONRPCMessage | undefined> {
+    if (!("id" in message) || !("method" in message)) {
+      this.onmessage?.(message, extra);
+      return Promise.resolve(undefined);
+    }
+
+    const internalId = `in-process-${++this.nextId}`;
+    return new Promise((resolve) => {
+      this.pending.set(internalId, { id: message.id, resolve });
+      this.onmessage?.({ ...message, id: internalId }, extra);
+    });
+  }
+}
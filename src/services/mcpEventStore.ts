@@ -0,0 +1,43 @@
+import { randomUUID } from "node:crypto";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Keeps the most recent messages sent on a session's streams so a client
+ * that reconnects with Last-Event-ID receives what it missed. Oldest
+ * events are dropped once the limit is reached.
+ */
+export class MemoryEventStore implements EventStore {
+  // Insertion order doubles as event order
+  private events = new Map<string, { streamId: string; message: JSONRPCMessage }>();
+
+  constructor(private maxEvents: number) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+
+    if (this.events.size > this.maxEvents) {
+      this.events.delete(this.events.keys().next().value!);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const last = this.events.get(lastEventId);
+    if (!last) return "";
+
+    let replaying = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        replaying = true;
+      } else if (replaying && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
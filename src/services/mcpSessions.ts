@@ -0,0 +1,138 @@
+import type { Response } from "express";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { getMcpConfig } from "../config/mcp.config.js";
+import type { MCPServer } from "../server.js";
+
+export interface McpSession {
+  id: string;
+  server: MCPServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // Address of the client that opened the session
+  client: string;
+  lastSeenAt: number;
+  // Long-lived streams (GET /mcp, legacy SSE) keep a session from expiring
+  openStreams: number;
+}
+
+export interface McpSessionStoreOptions {
+  ttlMs: number;
+  maxSessions: number;
+  maxSessionsPerClient: number;
+  sweepIntervalMs: number;
+}
+
+/**
+ * Maps MCP session IDs to the server instance and transport serving them.
+ * Sessions idle for longer than the TTL with no open stream are closed,
+ * which also drops their resource subscriptions. Each client may hold a
+ * limited number of sessions, so one client cannot push everyone else's
+ * sessions out of the store.
+ */
+export class McpSessionStore {
+  private sessions = new Map<string, McpSession>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private options: McpSessionStoreOptions) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Looks up a session and marks it as active
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  // Whether the client may open another session
+  hasRoomFor(client: string): boolean {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.client === client) count++;
+    }
+    return count < this.options.maxSessionsPerClient;
+  }
+
+  add(session: Omit<McpSession, "lastSeenAt" | "openStreams">): McpSession {
+    if (this.sessions.size >= this.options.maxSessions) {
+      this.evictIdlest();
+    }
+
+    const stored: McpSession = { ...session, lastSeenAt: Date.now(), openStreams: 0 };
+    this.sessions.set(stored.id, stored);
+    this.start();
+    return stored;
+  }
+
+  // Called once a session's transport has closed
+  remove(id: string) {
+    this.sessions.delete(id);
+    if (this.sessions.size === 0) this.stop();
+  }
+
+  trackStream(session: McpSession, res: Response) {
+    session.openStreams++;
+    res.on("close", () => {
+      session.openStreams--;
+      session.lastSeenAt = Date.now();
+    });
+  }
+
+  sweep() {
+    const cutoff = Date.now() - this.options.ttlMs;
+    for (const session of [...this.sessions.values()]) {
+      if (session.openStreams === 0 && session.lastSeenAt < cutoff) {
+        console.log(`⌛ MCP session ${session.id} expired`);
+        this.close(session);
+      }
+    }
+  }
+
+  private close(session: McpSession) {
+    this.sessions.delete(session.id);
+    session.transport.close().catch((error) => {
+      console.warn(`⚠️  Could not close MCP session ${session.id}:`, error);
+    });
+  }
+
+  // Makes room by closing the least recently used session
+  private evictIdlest() {
+    let idlest: McpSession | undefined;
+    for (const session of this.sessions.values()) {
+      if (!idlest || session.lastSeenAt < idlest.lastSeenAt) idlest = session;
+    }
+    if (idlest) {
+      console.log(`⚠️  MCP session limit reached, closing ${idlest.id}`);
+      this.close(idlest);
+    }
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), this.options.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  private stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+let sharedStore: McpSessionStore | undefined;
+
+// Process-wide session store shared by the Streamable HTTP and legacy SSE routes
+export const getMcpSessionStore = (): McpSessionStore => {
+  if (!sharedStore) {
+    const config = getMcpConfig();
+    sharedStore = new McpSessionStore({
+      ttlMs: config.sessionTtlMs,
+      maxSessions: config.maxSessions,
+      maxSessionsPerClient: config.maxSessionsPerClient,
+      sweepIntervalMs: config.sweepIntervalMs,
+    });
+  }
+  return sharedStore;
+};
@@ -0,0 +1,144 @@
+import { toOnchainNetwork } from "../config/onchain.config.js";
+import { pathSegment } from "../tools/pathSegment.js";
+import type { CoinGeckoClient } from "./coingecko.client.js";
+import { normalizeContractAddress } from "./contractAddress.js";
+
+// JSON:API resource as returned by the on-chain endpoints
+interface JsonApiResource<A = unknown> {
+  id: string;
+  type: string;
+  attributes: A;
+  relationships?: Record<string, { data: { id: string; type: string } | null }>;
+}
+
+interface RawPoolAttributes {
+  address: string;
+  name: string;
+  base_token_price_usd: string | null;
+  quote_token_price_usd: string | null;
+  reserve_in_usd: string | null;
+  fdv_usd: string | null;
+  market_cap_usd: string | null;
+  pool_created_at: string | null;
+  price_change_percentage?: Record<string, string>;
+  volume_usd?: Record<string, string>;
+  transactions?: Record<string, { buys: number; sells: number }>;
+}
+
+export interface OnchainPool {
+  address: string;
+  name: string;
+  network: string;
+  dex: string | null;
+  base_token: string | null;
+  quote_token: string | null;
+  base_token_price_usd: number | null;
+  quote_token_price_usd: number | null;
+  reserve_usd: number | null;
+  fdv_usd: number | null;
+  market_cap_usd: number | null;
+  volume_usd_24h: number | null;
+  price_change_percentage_24h: number | null;
+  transactions_24h: { buys: number; sells: number } | null;
+  created_at: string | null;
+}
+
+export interface OnchainTokenPrice {
+  price_usd: number | null;
+  market_cap_usd?: number | null;
+  volume_usd_24h?: number | null;
+}
+
+export const toNumberOrNull = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+// Prefixed IDs look like "eth_0xabc..." or "polygon_pos_0xabc..."; network IDs
+// may contain underscores but addresses do not, so split at the last one
+export const splitNetworkId = (id: string): { network: string | null; address: string } => {
+  const separator = id.lastIndexOf("_");
+  return separator === -1
+    ? { network: null, address: id }
+    : { network: id.slice(0, separator), address: id.slice(separator + 1) };
+};
+
+const relationshipId = (resource: JsonApiResource, name: string): string | null => {
+  const id = resource.relationships?.[name]?.data?.id ?? null;
+  return id && splitNetworkId(id).address;
+};
+
+export const flattenPool = (resource: JsonApiResource<RawPoolAttributes>, network: string): OnchainPool => {
+  const a = resource.attributes;
+  return {
+    address: a.address,
+    name: a.name,
+    network,
+    dex: resource.relationships?.dex?.data?.id ?? null,
+    base_token: relationshipId(resource, "base_token"),
+    quote_token: relationshipId(resource, "quote_token"),
+    base_token_price_usd: toNumberOrNull(a.base_token_price_usd),
+    quote_token_price_usd: toNumberOrNull(a.quote_token_price_usd),
+    reserve_usd: toNumberOrNull(a.reserve_in_usd),
+    fdv_usd: toNumberOrNull(a.fdv_usd),
+    market_cap_usd: toNumberOrNull(a.market_cap_usd),
+    volume_usd_24h: toNumberOrNull(a.volume_usd?.h24),
+    price_change_percentage_24h: toNumberOrNull(a.price_change_percentage?.h24),
+    transactions_24h: a.transactions?.h24 ?? null,
+    created_at: a.pool_created_at,
+  };
+};
+
+// Pools trading a token, most liquid first
+export const fetchTokenPools = async (
+  client: CoinGeckoClient,
+  platformOrNetwork: string,
+  address: string,
+  page = 1
+): Promise<OnchainPool[]> => {
+  const network = toOnchainNetwork(platformOrNetwork);
+  const response = await client.get<{ data: JsonApiResource<RawPoolAttributes>[] }>(
+    `/onchain/networks/${pathSegment(network, "network")}/tokens/${pathSegment(address, "address")}/pools`,
+    { page: String(page) }
+  );
+  return response.data.map((pool) => flattenPool(pool, network));
+};
+
+// DEX-liquidity prices for up to 30 tokens on one network, keyed by normalised address
+export const fetchOnchainTokenPrices = async (
+  client: CoinGeckoClient,
+  platformOrNetwork: string,
+  addresses: string[],
+  options: { includeMarketCap?: boolean; include24hrVol?: boolean } = {}
+): Promise<Record<string, OnchainTokenPrice>> => {
+  const network = toOnchainNetwork(platformOrNetwork);
+  const params: Record<string, string> = {};
+  if (options.includeMarketCap) params.include_market_cap = "true";
+  if (options.include24hrVol) params.include_24hr_vol = "true";
+
+  const response = await client.get<{
+    data: JsonApiResource<{
+      token_prices: Record<string, string | null>;
+      market_cap_usd?: Record<string, string | null>;
+      h24_volume_usd?: Record<string, string | null>;
+    }>;
+  }>(
+    `/onchain/simple/networks/${pathSegment(network, "network")}/token_price/` +
+      addresses.map((address) => pathSegment(address, "addresses")).join(","),
+    params
+  );
+
+  const { token_prices, market_cap_usd, h24_volume_usd } = response.data.attributes;
+  const prices: Record<string, OnchainTokenPrice> = {};
+
+  for (const [address, price] of Object.entries(token_prices)) {
+    prices[normalizeContractAddress(address)] = {
+      price_usd: toNumberOrNull(price),
+      ...(market_cap_usd && { market_cap_usd: toNumberOrNull(market_cap_usd[address]) }),
+      ...(h24_volume_usd && { volume_usd_24h: toNumberOrNull(h24_volume_usd[address]) }),
+    };
+  }
+
+  return prices;
+};
@@ -0,0 +1,84 @@
+import type { CoinGeckoParams } from "./coingecko.client.js";
+
+type SimplePriceData = Record<string, Record<string, number>>;
+
+interface PendingBatch {
+  ids: Set<string>;
+  params: CoinGeckoParams;
+  waiters: Array<{
+    ids: string[];
+    resolve: (data: SimplePriceData) => void;
+    reject: (error: unknown) => void;
+  }>;
+  timer: NodeJS.Timeout;
+}
+
+export interface PriceBatcherOptions {
+  // How long to wait for more ids before sending the batch
+  windowMs: number;
+  // Flush early once a batch reaches this many ids
+  maxIds: number;
+}
+
+/**
+ * Merges /simple/price calls that arrive within a short window and share
+ * every parameter except `ids` into one upstream request, then hands each
+ * caller only the coins it asked for.
+ */
+export class SimplePriceBatcher {
+  private batches = new Map<string, PendingBatch>();
+
+  constructor(
+    private fetchPrices: (params: CoinGeckoParams) => Promise<SimplePriceData>,
+    private options: PriceBatcherOptions
+  ) {}
+
+  fetch(params: CoinGeckoParams): Promise<SimplePriceData> {
+    const { ids = "", ...rest } = params;
+    const requested = ids.split(",").filter(Boolean);
+    const key = JSON.stringify(rest);
+
+    let batch = this.batches.get(key);
+    if (batch && batch.ids.size + requested.length > this.options.maxIds) {
+      this.flush(key);
+      batch = undefined;
+    }
+    if (!batch) {
+      batch = {
+        ids: new Set(),
+        params: rest,
+        waiters: [],
+        timer: setTimeout(() => this.flush(key), this.options.windowMs),
+      };
+      this.batches.set(key, batch);
+    }
+
+    requested.forEach((id) => batch!.ids.add(id));
+
+    return new Promise((resolve, reject) => {
+      batch!.waiters.push({ ids: requested, resolve, reject });
+    });
+  }
+
+  private flush(key: string) {
+    const batch = this.batches.get(key);
+    if (!batch) return;
+
+    this.batches.delete(key);
+    clearTimeout(batch.timer);
+
+    const ids = [...batch.ids].sort().join(",");
+    this.fetchPrices({ ...batch.params, ids }).then(
+      (data) => {
+        for (const waiter of batch.waiters) {
+          const subset: SimplePriceData = {};
+          for (const id of waiter.ids) {
+            if (data[id]) subset[id] = data[id];
+          }
+          waiter.resolve(subset);
+        }
+      },
+      (error) => batch.waiters.forEach((waiter) => waiter.reject(error))
+    );
+  }
+}
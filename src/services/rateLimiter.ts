@@ -0,0 +1,41 @@
+export interface TokenBucketOptions {
+  // Sustained rate the bucket refills at
+  ratePerMinute: number;
+  // Requests that may go out back to back after an idle period
+  burst: number;
+}
+
+/**
+ * Token bucket that spaces upstream calls to the plan's rate limit. A caller
+ * that finds the bucket empty reserves the next token and is told how long
+ * to wait, so waiting callers are served in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private intervalMs: number;
+
+  constructor(private options: TokenBucketOptions) {
+    this.tokens = options.burst;
+    this.intervalMs = 60_000 / options.ratePerMinute;
+  }
+
+  // Wait until a token would be free, without taking it
+  get waitMs(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.intervalMs);
+  }
+
+  // Takes a token and returns how long to wait before using it
+  reserve(): number {
+    const wait = this.waitMs;
+    this.tokens -= 1;
+    return wait;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - this.updatedAt) / this.intervalMs);
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,134 @@
+import { createHash } from "node:crypto";
+import { getResourcesConfig } from "../config/resources.config.js";
+
+export type ResourceReader = () => Promise<string>;
+export type ResourceListener = (uri: string) => void;
+
+interface Watch {
+  read: ResourceReader;
+  listeners: Set<ResourceListener>;
+  // Hash of the last content seen; undefined until the first read succeeds
+  fingerprint?: string;
+  // Consecutive failed reads, and when the next read is due after them
+  failures: number;
+  retryAt: number;
+}
+
+// Longest a failing resource waits between reads
+const MAX_BACKOFF_MS = 10 * 60_000;
+
+// Resources stamp the time they were rendered, which alone is not a change
+const fingerprint = (text: string): string => {
+  let comparable = text;
+  try {
+    const { timestamp, ...rest } = JSON.parse(text);
+    comparable = JSON.stringify(rest);
+  } catch {
+    // Not JSON; compare the raw text
+  }
+  return createHash("sha1").update(comparable).digest("hex");
+};
+
+/**
+ * Re-reads subscribed resources on a fixed interval and notifies their
+ * subscribers when the content changes. Each URI is read once per tick no
+ * matter how many sessions subscribe to it, and reads go through the
+ * cached CoinGecko client, so polling costs at most one upstream call per
+ * resource per cache TTL. Failed reads are not cached, so a resource that
+ * keeps failing is read less and less often, up to MAX_BACKOFF_MS apart.
+ */
+export class ResourcePoller {
+  private watches = new Map<string, Watch>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private options: { intervalMs: number; maxWatches: number }) {}
+
+  // Whether the URI is already watched or another one can be added
+  hasRoomFor(uri: string): boolean {
+    return this.watches.has(uri) || this.watches.size < this.options.maxWatches;
+  }
+
+  // Returns a function that removes the subscription
+  subscribe(uri: string, read: ResourceReader, listener: ResourceListener): () => void {
+    let watch = this.watches.get(uri);
+    if (!watch) {
+      watch = { read, listeners: new Set(), failures: 0, retryAt: 0 };
+      this.watches.set(uri, watch);
+      void this.check(uri, watch);
+    }
+    watch.listeners.add(listener);
+    this.start();
+
+    const subscribed = watch;
+    return () => {
+      subscribed.listeners.delete(listener);
+      if (subscribed.listeners.size === 0 && this.watches.get(uri) === subscribed) {
+        this.watches.delete(uri);
+      }
+      if (this.watches.size === 0) this.stop();
+    };
+  }
+
+  get size(): number {
+    return this.watches.size;
+  }
+
+  async poll(): Promise<void> {
+    // Skip a tick rather than overlap when reads are slow
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [uri, watch] of [...this.watches]) {
+        if (watch.retryAt > Date.now()) continue;
+        await this.check(uri, watch);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async check(uri: string, watch: Watch) {
+    let current: string;
+    try {
+      current = fingerprint(await watch.read());
+    } catch (error) {
+      watch.failures++;
+      const backoffMs = Math.min(this.options.intervalMs * 2 ** (watch.failures - 1), MAX_BACKOFF_MS);
+      watch.retryAt = Date.now() + backoffMs;
+      console.warn(`⚠️  Could not refresh subscribed resource ${uri} (${watch.failures} failures in a row):`, error);
+      return;
+    }
+    watch.failures = 0;
+    watch.retryAt = 0;
+
+    const previous = watch.fingerprint;
+    watch.fingerprint = current;
+    if (previous === undefined || previous === current) return;
+
+    for (const listener of watch.listeners) listener(uri);
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  private stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+let sharedPoller: ResourcePoller | undefined;
+
+// Process-wide poller shared by every MCP session
+export const getResourcePoller = (): ResourcePoller => {
+  if (!sharedPoller) {
+    const { pollIntervalMs, maxWatchedResources } = getResourcesConfig();
+    sharedPoller = new ResourcePoller({ intervalMs: pollIntervalMs, maxWatches: maxWatchedResources });
+  }
+  return sharedPoller;
+};
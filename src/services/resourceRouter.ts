@@ -0,0 +1,56 @@
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+
+export interface ResourceTemplateInfo {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export type ResourceParams = Record<string, string>;
+
+interface ResourceRoute<R> {
+  template: UriTemplate;
+  info: ResourceTemplateInfo;
+  read: (uri: string, params: ResourceParams) => Promise<R>;
+}
+
+/**
+ * Maps parameterised resource URIs (RFC 6570 templates such as
+ * coingecko://coin/{id}) to their readers. Routes are tried in the order
+ * they were added.
+ */
+export class ResourceRouter<R> {
+  private routes: ResourceRoute<R>[] = [];
+
+  add(info: ResourceTemplateInfo, read: ResourceRoute<R>["read"]): this {
+    this.routes.push({ template: new UriTemplate(info.uriTemplate), info, read });
+    return this;
+  }
+
+  // Reader bound to the matched parameters, or undefined when no template matches.
+  // Parameters are percent-decoded, so readers must encode them again before
+  // using them in an upstream path ("%2F" decodes to "/").
+  match(uri: string): (() => Promise<R>) | undefined {
+    for (const route of this.routes) {
+      const variables = route.template.match(uri);
+      if (!variables) continue;
+
+      const params: ResourceParams = {};
+      try {
+        for (const [name, value] of Object.entries(variables)) {
+          params[name] = decodeURIComponent(Array.isArray(value) ? value[0] : value);
+        }
+      } catch {
+        // Malformed percent-encoding
+        return undefined;
+      }
+      return () => route.read(uri, params);
+    }
+    return undefined;
+  }
+
+  templates(): ResourceTemplateInfo[] {
+    return this.routes.map((route) => route.info);
+  }
+}
@@ -0,0 +1,162 @@
+import { createHmac } from "node:crypto";
+import dns from "node:dns";
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+export interface WebhookOptions {
+  timeoutMs: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Allows loopback and private targets, for local development only
+  allowPrivateNetworks?: boolean;
+}
+
+export interface WebhookResult {
+  delivered: boolean;
+  attempts: number;
+  // Status of the last response, null if the receiver was unreachable
+  status: number | null;
+}
+
+// Raised when a webhook URL is unusable or points into a private network
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookTargetError";
+  }
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+// BlockList also matches IPv4-mapped IPv6 addresses against the IPv4 ranges
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family === 0 || BLOCKED_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+/**
+ * Parses a webhook URL and, unless private networks are allowed, resolves
+ * its host and rejects it if any address is private, loopback or
+ * link-local. Used when an alert is created and again before each delivery.
+ */
+export const checkWebhookUrl = async (value: string, allowPrivateNetworks = false): Promise<URL> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new WebhookTargetError("webhook URL is not a valid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new WebhookTargetError("webhook URL must use http or https");
+  }
+  if (allowPrivateNetworks) return url;
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new WebhookTargetError(`webhook host ${host} could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new WebhookTargetError(`webhook host ${host} resolves to a private or reserved address`);
+  }
+  return url;
+};
+
+// Re-checks addresses at connect time, so a host cannot be re-pointed at a
+// private address between the check and the request (DNS rebinding)
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) return callback(error);
+    if (entries.length === 0 || entries.some((entry) => isPrivateAddress(entry.address))) {
+      return callback(new WebhookTargetError(`webhook host ${hostname} resolves to a private or reserved address`));
+    }
+    if (options.all) return callback(null, entries);
+    callback(null, entries[0].address, entries[0].family);
+  });
+}) as LookupFunction;
+
+// Single POST; redirects are not followed, so a 3xx counts as a rejection
+const post = (url: URL, headers: Record<string, string>, body: string, options: WebhookOptions): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        ...(!options.allowPrivateNetworks && { lookup: publicOnlyLookup }),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.setTimeout(options.timeoutMs, () => request.destroy(new Error(`timed out after ${options.timeoutMs}ms`)));
+    request.on("error", reject);
+    request.end(body);
+  });
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Receivers verify HMAC-SHA256(secret, "<timestamp>.<body>") against X-Signature
+export const signWebhook = (secret: string, timestamp: string, body: string): string => {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+};
+
+/**
+ * POSTs a signed JSON payload, retrying network errors, 429 and 5xx
+ * responses with jittered exponential backoff. Other 4xx and 3xx responses
+ * are treated as a permanent rejection, as is a target in a private network.
+ */
+export const deliverWebhook = async (
+  url: string,
+  payload: unknown,
+  secret: string,
+  options: WebhookOptions
+): Promise<WebhookResult> => {
+  const body = JSON.stringify(payload);
+  let status: number | null = null;
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    try {
+      const target = await checkWebhookUrl(url, options.allowPrivateNetworks);
+      status = await post(target, {
+        "Content-Type": "application/json",
+        "X-Signature": signWebhook(secret, timestamp, body),
+        "X-Signature-Timestamp": timestamp,
+      }, body, options);
+      if (status >= 200 && status < 300) return { delivered: true, attempts: attempt, status };
+      if (status !== 429 && status < 500) return { delivered: false, attempts: attempt, status };
+    } catch (error) {
+      status = null;
+      console.warn(`⚠️  Webhook ${url} failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof WebhookTargetError) return { delivered: false, attempts: attempt, status };
+    }
+
+    if (attempt < options.maxAttempts) {
+      const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      await sleep(Math.round(Math.random() * ceiling));
+    }
+  }
+
+  return { delivered: false, attempts: options.maxAttempts, status };
+};
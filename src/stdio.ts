@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+import { config } from "dotenv";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { MCPServer } from "./server.js";
+import { startAlertEvaluator } from "./services/alertEvaluator.js";
+
+// stdout carries the protocol stream, so every log goes to stderr
+for (const method of ["log", "info", "debug", "warn"] as const) {
+  console[method] = (...args: unknown[]) => console.error(...args);
+}
+
+// Load environment variables
+config({ quiet: true });
+
+/**
+ * stdio entry point for local desktop MCP clients. Serves the same tools,
+ * prompts and resources as the HTTP server, without x402 payment.
+ */
+const main = async () => {
+  const mcpServer = new MCPServer();
+  const transport = new StdioServerTransport();
+
+  transport.onclose = () => process.exit(0);
+  await mcpServer.getServer().connect(transport);
+
+  startAlertEvaluator();
+
+  console.log("🚀 CoinGecko MCP Server running on stdio");
+  console.log("💰 Payment: DISABLED (stdio transport)");
+};
+
+main().catch((error) => {
+  console.error("❌ Failed to start stdio server:", error);
+  process.exit(1);
+});
+
+process.on("SIGINT", () => process.exit(0));
+process.on("SIGTERM", () => process.exit(0));
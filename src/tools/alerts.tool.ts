@@ -0,0 +1,271 @@
+import { getAlertsConfig } from "../config/alerts.config.js";
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import {
+  ALERT_CONDITIONS,
+  createOwnerToken,
+  getAlertStore,
+  hashOwnerToken,
+  type AlertCondition,
+  type PriceAlert,
+} from "../services/alerts.store.js";
+import { resolveCoinIds, settleUnlisted } from "../services/coinResolver.js";
+import { WebhookTargetError, checkWebhookUrl } from "../services/webhook.js";
+import { RecordNotFoundError, ToolArgumentError } from "./errors.js";
+import { STRING, NUMBER, INTEGER, BOOLEAN, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+interface CreateAlertArgs {
+  coin: string;
+  vs_currency?: string;
+  condition: AlertCondition;
+  threshold: number;
+  webhook_url: string;
+  repeat?: boolean;
+  owner_token?: string;
+}
+
+interface ListAlertsArgs {
+  owner_token: string;
+  status?: PriceAlert["status"];
+  coin_id?: string;
+}
+
+interface DeleteAlertArgs {
+  id: string;
+  owner_token: string;
+}
+
+// Length of tokens from createOwnerToken; shorter caller-chosen tokens would be guessable
+const OWNER_TOKEN_LENGTH = 32;
+
+const OWNER_TOKEN_PROPERTY = {
+  type: "string" as const,
+  description: "owner_token returned by create_price_alert",
+};
+
+const ALERT_OUTPUT = objectOf({
+  id: STRING,
+  coin_id: STRING,
+  vs_currency: STRING,
+  condition: { type: "string", enum: [...ALERT_CONDITIONS] },
+  threshold: NUMBER,
+  webhook_url: STRING,
+  secret: { type: "string", description: "Webhook signing key, only returned by create_price_alert" },
+  owner_token: { type: "string", description: "Token for listing and deleting the alert, only returned by create_price_alert" },
+  repeat: BOOLEAN,
+  status: { type: "string", enum: ["active", "triggered"] },
+  armed: BOOLEAN,
+  created_at: STRING,
+  triggered_at: nullable("string"),
+  trigger_count: INTEGER,
+  last_value: nullable("number"),
+  last_checked_at: nullable("string"),
+  last_delivery: nullable("object"),
+}, ["id", "coin_id", "vs_currency", "condition", "threshold", "status"]);
+
+// The signing secret and webhook URL are only returned when an alert is created
+const toPublicAlert = ({ secret, owner, webhook_url, ...alert }: PriceAlert) => alert;
+
+export const createPriceAlertTool: ToolDefinition<CreateAlertArgs> = {
+  name: "create_price_alert",
+  description: "Register a price alert that POSTs a signed webhook when a coin's price or 24h change crosses a threshold (e.g. ETH price_below 2500 usd, or change_24h_above 10). Prices are checked in the background; the response contains the HMAC secret used to sign webhook payloads and an owner_token for listing and deleting alerts",
+  summary: "Create a price alert with webhook delivery",
+  inputSchema: {
+    type: "object",
+    properties: {
+      coin: {
+        type: "string",
+        description: "CoinGecko ID, ticker or name (e.g., ethereum, ETH)",
+      },
+      vs_currency: {
+        type: "string",
+        description: "Quote currency. Default: usd",
+      },
+      condition: {
+        type: "string",
+        description: "price_above/price_below compare the price; change_24h_above/change_24h_below compare the 24h change in percent",
+        enum: [...ALERT_CONDITIONS],
+      },
+      threshold: {
+        type: "number",
+        description: "Price, or 24h change in percent, to compare against",
+      },
+      webhook_url: {
+        type: "string",
+        description: "Public HTTP(S) URL that receives the alert as a signed JSON POST. Private, loopback and link-local hosts are rejected",
+      },
+      repeat: {
+        type: "boolean",
+        description: "Fire again each time the condition holds after clearing. Default: false (fire once)",
+      },
+      owner_token: {
+        type: "string",
+        description: "owner_token from an earlier create_price_alert, to manage several alerts together. Omit to get a new one",
+      },
+    },
+    required: ["coin", "condition", "threshold", "webhook_url"],
+  },
+  outputSchema: toolOutputSchema(ALERT_OUTPUT, { message: STRING }),
+  rest: {
+    method: "POST",
+    path: "/alerts",
+    example: "/alerts",
+  },
+  pricing: PAYMENT_CONFIG.tools.create_price_alert,
+  errorMessage: "Failed to create price alert",
+
+  async handler(args, { client }) {
+    if (args.owner_token !== undefined && args.owner_token.length < OWNER_TOKEN_LENGTH) {
+      throw new ToolArgumentError("'owner_token' must be a token returned by create_price_alert");
+    }
+
+    const { maxAlerts, maxAlertsPerOwner, webhook } = getAlertsConfig();
+    let webhookUrl: URL;
+    try {
+      webhookUrl = await checkWebhookUrl(args.webhook_url, webhook.allowPrivateNetworks);
+    } catch (error) {
+      if (error instanceof WebhookTargetError) throw new ToolArgumentError(`'webhook_url' is not allowed: ${error.message}`);
+      throw error;
+    }
+
+    const store = getAlertStore();
+    const ownerToken = args.owner_token ?? createOwnerToken();
+    const owner = hashOwnerToken(ownerToken);
+    if ((await store.list()).length >= maxAlerts) {
+      throw new ToolArgumentError(`Alert limit of ${maxAlerts} reached; delete unused alerts first`);
+    }
+    if ((await store.listByOwner(owner)).length >= maxAlertsPerOwner) {
+      throw new ToolArgumentError(`Limit of ${maxAlertsPerOwner} alerts per owner reached; delete unused alerts first`);
+    }
+
+    const vsCurrency = (args.vs_currency || "usd").trim().toLowerCase();
+    const resolution = await resolveCoinIds(client, [args.coin]);
+    if (resolution.unlisted.length > 0) {
+      // Only accept a coin the cached list misses if CoinGecko can price it
+      const prices = await client.get<Record<string, unknown>>("/simple/price", {
+        ids: resolution.resolved[args.coin],
+        vs_currencies: vsCurrency,
+      });
+      settleUnlisted(resolution, (id) => id in prices);
+    }
+    const coinId = resolution.resolved[args.coin];
+    if (!coinId) {
+      const candidates = resolution.ambiguous[args.coin]?.map((c) => c.id);
+      throw new ToolArgumentError(
+        candidates
+          ? `'${args.coin}' is ambiguous; use one of: ${candidates.join(", ")}`
+          : `Unknown coin '${args.coin}'`
+      );
+    }
+
+    const alert = await store.create({
+      coin_id: coinId,
+      vs_currency: vsCurrency,
+      condition: args.condition,
+      threshold: args.threshold,
+      webhook_url: webhookUrl.toString(),
+      repeat: args.repeat ?? false,
+      owner,
+    });
+    const { owner: _owner, ...created } = alert;
+
+    return {
+      success: true,
+      data: { ...created, owner_token: ownerToken },
+      message: "Store the secret to verify the X-Signature header of webhook deliveries, and the owner_token to list or delete your alerts; neither is shown again",
+      parameters: {
+        coin: args.coin,
+        condition: args.condition,
+        threshold: args.threshold,
+      },
+    };
+  },
+};
+
+export const listPriceAlertsTool: ToolDefinition<ListAlertsArgs> = {
+  name: "list_price_alerts",
+  description: "List the price alerts created with an owner_token, with their status, last checked value and last webhook delivery",
+  summary: "List price alerts",
+  inputSchema: {
+    type: "object",
+    properties: {
+      owner_token: OWNER_TOKEN_PROPERTY,
+      status: {
+        type: "string",
+        description: "Only alerts with this status",
+        enum: ["active", "triggered"],
+      },
+      coin_id: {
+        type: "string",
+        description: "Only alerts for this CoinGecko ID",
+      },
+    },
+    required: ["owner_token"],
+  },
+  outputSchema: toolOutputSchema(arrayOf(ALERT_OUTPUT), { count: INTEGER }),
+  rest: {
+    method: "GET",
+    path: "/alerts",
+    example: "/alerts?owner_token=...&status=active",
+  },
+  pricing: PAYMENT_CONFIG.tools.list_price_alerts,
+  errorMessage: "Failed to list price alerts",
+
+  async handler(args) {
+    const alerts = (await getAlertStore().listByOwner(hashOwnerToken(args.owner_token)))
+      .filter((alert) => !args.status || alert.status === args.status)
+      .filter((alert) => !args.coin_id || alert.coin_id === args.coin_id.toLowerCase())
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(toPublicAlert);
+
+    return {
+      success: true,
+      data: alerts,
+      count: alerts.length,
+      parameters: {
+        ...(args.status && { status: args.status }),
+        ...(args.coin_id && { coin_id: args.coin_id }),
+      },
+    };
+  },
+};
+
+export const deletePriceAlertTool: ToolDefinition<DeleteAlertArgs> = {
+  name: "delete_price_alert",
+  description: "Delete a price alert so it no longer fires. Requires the owner_token it was created with",
+  summary: "Delete a price alert",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Alert ID returned by create_price_alert",
+      },
+      owner_token: OWNER_TOKEN_PROPERTY,
+    },
+    required: ["id", "owner_token"],
+  },
+  outputSchema: toolOutputSchema(objectOf({ id: STRING, deleted: BOOLEAN }, ["id", "deleted"])),
+  rest: {
+    method: "DELETE",
+    path: "/alerts/:id",
+    example: "/alerts/3f0c9a52-...?owner_token=...",
+  },
+  pricing: PAYMENT_CONFIG.tools.delete_price_alert,
+  errorMessage: "Failed to delete price alert",
+
+  async handler(args) {
+    const store = getAlertStore();
+    // Alerts of other owners are reported as missing rather than forbidden
+    const alert = await store.get(args.id);
+    if (!alert || alert.owner !== hashOwnerToken(args.owner_token) || !(await store.delete(args.id))) {
+      throw new RecordNotFoundError(`Alert '${args.id}' not found`);
+    }
+
+    return {
+      success: true,
+      data: { id: args.id, deleted: true },
+      parameters: { id: args.id },
+    };
+  },
+};
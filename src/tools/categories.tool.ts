@@ -0,0 +1,147 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import type { CoinGeckoClient } from "../services/coingecko.client.js";
+import { STRING, INTEGER, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+interface CategoriesArgs {
+  order?: string;
+  query?: string;
+  limit?: number;
+  list_only?: boolean;
+}
+
+interface RawCategory {
+  id: string;
+  name: string;
+  market_cap: number | null;
+  market_cap_change_24h: number | null;
+  volume_24h: number | null;
+  top_3_coins_id?: string[];
+  top_3_coins?: string[];
+  updated_at: string | null;
+}
+
+export interface CategorySummary {
+  id: string;
+  name: string;
+  market_cap: number | null;
+  market_cap_change_24h: number | null;
+  volume_24h: number | null;
+  top_coins: string[];
+  updated_at: string | null;
+}
+
+export const CATEGORY_ORDERS = [
+  "market_cap_desc",
+  "market_cap_asc",
+  "name_desc",
+  "name_asc",
+  "market_cap_change_24h_desc",
+  "market_cap_change_24h_asc",
+];
+
+// Sector performance from /coins/categories, optionally narrowed by a name/ID substring
+export const fetchCategories = async (
+  client: CoinGeckoClient,
+  order = "market_cap_desc",
+  query?: string
+): Promise<CategorySummary[]> => {
+  const raw = await client.get<RawCategory[]>("/coins/categories", { order });
+  const needle = query?.trim().toLowerCase();
+
+  return raw
+    .filter((c) => !needle || c.name.toLowerCase().includes(needle) || c.id.includes(needle))
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      market_cap: c.market_cap,
+      market_cap_change_24h: c.market_cap_change_24h,
+      volume_24h: c.volume_24h,
+      // Older API versions only return image URLs for the top coins
+      top_coins: c.top_3_coins_id ?? c.top_3_coins ?? [],
+      updated_at: c.updated_at,
+    }));
+};
+
+export const categoriesTool: ToolDefinition<CategoriesArgs> = {
+  name: "get_categories",
+  description: "Compare crypto sectors (AI, memes, layer 2, RWA, ...) using /coins/categories: market cap, 24h market cap change, volume and top coins per category. Set list_only to get just category IDs and names from /coins/categories/list",
+  summary: "Get sector performance by coin category",
+  inputSchema: {
+    type: "object",
+    properties: {
+      order: {
+        type: "string",
+        description: "Sort order. Use market_cap_change_24h_desc to spot sector rotation. Default: market_cap_desc",
+        enum: CATEGORY_ORDERS,
+      },
+      query: {
+        type: "string",
+        description: "Only return categories whose name or ID contains this text (e.g., meme, ai, layer 2)",
+      },
+      limit: {
+        type: "integer",
+        description: "Maximum number of categories to return. Default: 25",
+        minimum: 1,
+      },
+      list_only: {
+        type: "boolean",
+        description: "Return only category IDs and names. Default: false",
+      },
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({
+      id: STRING,
+      name: STRING,
+      market_cap: nullable("number"),
+      market_cap_change_24h: nullable("number"),
+      volume_24h: nullable("number"),
+      top_coins: arrayOf(STRING),
+      updated_at: nullable("string"),
+    }, ["name"])),
+    {
+      count: INTEGER,
+      total_matching: { type: "integer", description: "Categories matching the query before the limit" },
+    }
+  ),
+  rest: {
+    method: "GET",
+    path: "/coins/categories",
+    example: "/coins/categories?order=market_cap_change_24h_desc&limit=10",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_categories,
+  errorMessage: "Failed to fetch categories",
+
+  async handler(args, { client }) {
+    const order = args.order || "market_cap_desc";
+    const limit = args.limit ?? 25;
+    const needle = args.query?.trim().toLowerCase();
+
+    if (args.list_only) {
+      const list = await client.get<Array<{ category_id: string; name: string }>>("/coins/categories/list");
+      const matching = list.filter((c) => !needle || c.name.toLowerCase().includes(needle) || c.category_id.includes(needle));
+      const data = matching.slice(0, limit);
+
+      return {
+        success: true,
+        data,
+        count: data.length,
+        total_matching: matching.length,
+        parameters: { list_only: true, limit, ...(args.query && { query: args.query }) },
+      };
+    }
+
+    const categories = await fetchCategories(client, order, args.query);
+    const data = categories.slice(0, limit);
+
+    return {
+      success: true,
+      data,
+      count: data.length,
+      total_matching: categories.length,
+      parameters: { order, limit, ...(args.query && { query: args.query }) },
+    };
+  },
+};
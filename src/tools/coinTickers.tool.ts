@@ -0,0 +1,103 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { STRING, INTEGER, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import {
+  TICKER_FILTER_PROPERTIES,
+  TICKER_OUTPUT,
+  VENUE_SUMMARY_OUTPUT,
+  filterTickers,
+  summarizeVenues,
+  type Ticker,
+  type TickerFilters,
+} from "./tickers.js";
+import type { ToolDefinition } from "./types.js";
+
+interface CoinTickersArgs extends TickerFilters {
+  id: string;
+  exchange_ids?: string;
+  page?: string | number;
+  order?: string;
+  depth?: boolean;
+  include_tickers?: boolean;
+}
+
+export const coinTickersTool: ToolDefinition<CoinTickersArgs> = {
+  name: "get_coin_tickers",
+  description: "Show where a coin trades using /coins/{id}/tickers: per-venue USD volume, market share and concentration (top venue share, HHI), with filters on ticker trust score and quote currency",
+  summary: "Get where a coin trades with venue concentration",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "CoinGecko coin ID (e.g., bitcoin)",
+      },
+      exchange_ids: {
+        type: "string",
+        description: "Comma-separated exchange IDs to restrict tickers to",
+      },
+      page: {
+        type: "integer",
+        description: "Page number (100 tickers per page). Default: 1",
+        minimum: 1,
+      },
+      order: {
+        type: "string",
+        description: "Sort order. Default: trust_score_desc",
+        enum: ["trust_score_desc", "trust_score_asc", "volume_desc", "volume_asc"],
+      },
+      depth: {
+        type: "boolean",
+        description: "Include 2% orderbook depth",
+      },
+      include_tickers: {
+        type: "boolean",
+        description: "Return the filtered raw tickers as well as the venue summary. Default: false",
+      },
+      ...TICKER_FILTER_PROPERTIES,
+    },
+    required: ["id"],
+  },
+  outputSchema: toolOutputSchema(
+    objectOf({
+      name: STRING,
+      summary: VENUE_SUMMARY_OUTPUT,
+      tickers: arrayOf(TICKER_OUTPUT),
+    }, ["summary"]),
+    { ticker_count: INTEGER }
+  ),
+  rest: {
+    method: "GET",
+    path: "/coins/:id/tickers",
+    example: "/coins/bitcoin/tickers?trust_score=green&target=USDT,USD",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_coin_tickers,
+  errorMessage: "Failed to fetch coin tickers",
+
+  async handler(args, { client }) {
+    const params: Record<string, string> = {};
+    if (args.exchange_ids) params.exchange_ids = args.exchange_ids;
+    if (args.page !== undefined) params.page = String(args.page);
+    if (args.order) params.order = args.order;
+    if (args.depth !== undefined) params.depth = String(args.depth);
+
+    const response = await client.get<{ name: string; tickers: Ticker[] }>(`/coins/${pathSegment(args.id, "id")}/tickers`, params);
+    const tickers = filterTickers(response.tickers ?? [], args);
+
+    return {
+      success: true,
+      data: {
+        name: response.name,
+        summary: summarizeVenues(tickers),
+        ...(args.include_tickers && { tickers }),
+      },
+      ticker_count: tickers.length,
+      parameters: {
+        id: args.id,
+        ...params,
+        ...(args.trust_score && { trust_score: args.trust_score }),
+        ...(args.target && { target: args.target }),
+      },
+    };
+  },
+};
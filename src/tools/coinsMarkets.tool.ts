@@ -0,0 +1,236 @@
+import { createHash } from "node:crypto";
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { ToolArgumentError } from "./errors.js";
+import { STRING, INTEGER, BOOLEAN, OBJECT, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+interface CoinsMarketsArgs {
+  vs_currency?: string;
+  ids?: string;
+  category?: string;
+  order?: string;
+  per_page?: number;
+  page?: number;
+  price_change_percentage?: string;
+  min_market_cap?: number;
+  min_volume?: number;
+  max_rank?: number;
+  cursor?: string;
+}
+
+interface MarketRow {
+  id: string;
+  market_cap: number | null;
+  market_cap_rank: number | null;
+  total_volume: number | null;
+  [key: string]: unknown;
+}
+
+interface Cursor {
+  // Upstream page to resume from and how many of its rows were already consumed
+  page: number;
+  offset: number;
+  // Digest of the upstream query the position belongs to
+  query: string;
+}
+
+const MAX_PER_PAGE = 250;
+// Upper bound on upstream pages scanned per call when filters drop rows
+const MAX_PAGES_PER_CALL = 5;
+
+const ORDERS = ["market_cap_desc", "market_cap_asc", "volume_desc", "volume_asc", "id_asc", "id_desc"];
+
+// Parameters that decide which rows sit at a page and offset upstream
+const CURSOR_QUERY_PARAMS = ["vs_currency", "order", "per_page", "category", "ids"];
+
+// A digest rather than the parameters themselves keeps cursors short for long ids lists
+const queryDigest = (params: Record<string, string>): string =>
+  createHash("sha256")
+    .update(JSON.stringify(CURSOR_QUERY_PARAMS.map((key) => params[key]?.toLowerCase() ?? null)))
+    .digest("base64url")
+    .slice(0, 16);
+
+const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (value: string, query: string): Cursor => {
+  let cursor: Cursor | undefined;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (Number.isInteger(parsed.page) && parsed.page > 0 && Number.isInteger(parsed.offset) && parsed.offset >= 0 && typeof parsed.query === "string") {
+      cursor = parsed;
+    }
+  } catch {
+    // fall through
+  }
+  if (!cursor) {
+    throw new ToolArgumentError("'cursor' is invalid; pass the next_cursor value from a previous response");
+  }
+  if (cursor.query !== query) {
+    throw new ToolArgumentError(
+      `'cursor' belongs to a different query; repeat the same ${CURSOR_QUERY_PARAMS.join(", ")} as the request that returned it, or drop the cursor`
+    );
+  }
+  return cursor;
+};
+
+export const coinsMarketsTool: ToolDefinition<CoinsMarketsArgs> = {
+  name: "get_coins_markets",
+  description: "Screen coins by market data using /coins/markets, with sorting, category, price change windows, server-side filters (min market cap, min volume, max rank) and cursor pagination",
+  summary: "Screen coins by market cap, volume and rank with pagination",
+  inputSchema: {
+    type: "object",
+    properties: {
+      vs_currency: {
+        type: "string",
+        description: "Quote currency (e.g., usd, eur). Default: usd",
+      },
+      ids: {
+        type: "string",
+        description: "Comma-separated CoinGecko IDs to restrict the screen to",
+      },
+      category: {
+        type: "string",
+        description: "CoinGecko category ID (e.g., layer-1, meme-token)",
+      },
+      order: {
+        type: "string",
+        description: "Sort order. Default: market_cap_desc",
+        enum: ORDERS,
+      },
+      per_page: {
+        type: "integer",
+        description: `Results per page (1-${MAX_PER_PAGE}). Default: 50`,
+        minimum: 1,
+        maximum: MAX_PER_PAGE,
+      },
+      page: {
+        type: "integer",
+        description: "Starting page when no cursor is given. Default: 1",
+        minimum: 1,
+      },
+      price_change_percentage: {
+        type: "string",
+        description: "Comma-separated change windows to include (1h,24h,7d,14d,30d,200d,1y)",
+      },
+      min_market_cap: {
+        type: "number",
+        description: "Only return coins with at least this market cap",
+        minimum: 0,
+      },
+      min_volume: {
+        type: "number",
+        description: "Only return coins with at least this 24h volume",
+        minimum: 0,
+      },
+      max_rank: {
+        type: "integer",
+        description: "Only return coins ranked at or above this market cap rank",
+        minimum: 1,
+      },
+      cursor: {
+        type: "string",
+        description: "Opaque next_cursor from a previous response to fetch the following page",
+      },
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({
+      id: STRING,
+      symbol: STRING,
+      name: STRING,
+      current_price: nullable("number"),
+      market_cap: nullable("number"),
+      market_cap_rank: nullable("integer"),
+      total_volume: nullable("number"),
+    }, ["id", "symbol", "name"])),
+    {
+      count: INTEGER,
+      pagination: objectOf({
+        per_page: INTEGER,
+        next_cursor: nullable("string"),
+        has_more: BOOLEAN,
+      }, ["per_page", "next_cursor", "has_more"]),
+      filters: OBJECT,
+    }
+  ),
+  rest: {
+    method: "GET",
+    path: "/coins/markets",
+    example: "/coins/markets?vs_currency=usd&order=volume_desc&per_page=50",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_coins_markets,
+  errorMessage: "Failed to fetch coin markets",
+
+  async handler(args, { client }) {
+    // Types, ranges and the order enum are enforced by inputSchema
+    const perPage = args.per_page ?? 50;
+    const order = args.order || "market_cap_desc";
+    const filters = {
+      min_market_cap: args.min_market_cap,
+      min_volume: args.min_volume,
+      max_rank: args.max_rank,
+    };
+
+    const params: Record<string, string> = {
+      vs_currency: args.vs_currency || "usd",
+      order,
+      per_page: String(perPage),
+    };
+    if (args.ids) params.ids = args.ids;
+    if (args.category) params.category = args.category;
+    if (args.price_change_percentage) params.price_change_percentage = args.price_change_percentage;
+
+    const query = queryDigest(params);
+    let { page, offset } = args.cursor ? decodeCursor(args.cursor, query) : { page: args.page ?? 1, offset: 0 };
+
+    const matches = (row: MarketRow) =>
+      (filters.min_market_cap === undefined || (row.market_cap ?? 0) >= filters.min_market_cap) &&
+      (filters.min_volume === undefined || (row.total_volume ?? 0) >= filters.min_volume) &&
+      (filters.max_rank === undefined || (row.market_cap_rank !== null && row.market_cap_rank <= filters.max_rank));
+
+    const results: MarketRow[] = [];
+    let nextCursor: Omit<Cursor, "query"> | null = null;
+
+    for (let scanned = 0; scanned < MAX_PAGES_PER_CALL; scanned++) {
+      const rows = await client.get<MarketRow[]>("/coins/markets", { ...params, page: String(page) });
+
+      for (let i = offset; i < rows.length && results.length < perPage; i++) {
+        if (matches(rows[i])) results.push(rows[i]);
+        offset = i + 1;
+      }
+
+      // Ranks only grow down a market-cap-sorted list, so nothing later can match
+      const pastMaxRank = order === "market_cap_desc" && filters.max_rank !== undefined &&
+        rows.some((row) => (row.market_cap_rank ?? Infinity) > filters.max_rank!);
+      const exhausted = rows.length < perPage || pastMaxRank;
+
+      if (results.length >= perPage) {
+        nextCursor = offset < rows.length ? { page, offset } : exhausted ? null : { page: page + 1, offset: 0 };
+        break;
+      }
+      if (exhausted) {
+        nextCursor = null;
+        break;
+      }
+
+      page += 1;
+      offset = 0;
+      nextCursor = { page, offset };
+    }
+
+    return {
+      success: true,
+      data: results,
+      count: results.length,
+      pagination: {
+        per_page: perPage,
+        next_cursor: nextCursor ? encodeCursor({ ...nextCursor, query }) : null,
+        has_more: nextCursor !== null,
+      },
+      filters: Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)),
+      parameters: params,
+    };
+  },
+};
@@ -0,0 +1,96 @@
+import {
+  CoinGeckoAuthError,
+  CoinGeckoError,
+  CoinGeckoNotFoundError,
+  CoinGeckoRateLimitError,
+  CoinGeckoTimeoutError,
+  CoinGeckoUpstreamError,
+} from "../services/coingecko.errors.js";
+import { RecordNotFoundError, ToolArgumentError } from "./errors.js";
+import { ToolValidationError, type FieldError } from "./validation.js";
+
+// Stable error codes shared by REST responses and MCP tool results
+export const ERROR_CODES = {
+  // Arguments failed validation or were inconsistent
+  INVALID_ARGUMENT: { status: 400, retryable: false },
+  // The HTTP request itself was unusable (malformed JSON, body too large)
+  INVALID_REQUEST: { status: 400, retryable: false },
+  // Unknown coin, contract, collection or alert
+  NOT_FOUND: { status: 404, retryable: false },
+  // CoinGecko rate limit; retry after retry_after_seconds when given
+  RATE_LIMITED: { status: 429, retryable: true },
+  // CoinGecko rejected our API key
+  UPSTREAM_AUTH: { status: 502, retryable: false },
+  // CoinGecko returned 5xx or could not be reached
+  UPSTREAM_UNAVAILABLE: { status: 502, retryable: true },
+  // CoinGecko rejected the request for another reason
+  UPSTREAM_ERROR: { status: 502, retryable: false },
+  UPSTREAM_TIMEOUT: { status: 504, retryable: true },
+  // A bug on our side; details are only logged
+  INTERNAL_ERROR: { status: 500, retryable: false },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export interface ErrorEnvelope {
+  // What failed, e.g. "Failed to fetch token data"
+  error: string;
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  // Matches the X-Request-Id header and the server logs
+  request_id: string;
+  retry_after_seconds?: number;
+  errors?: FieldError[];
+}
+
+// Errors raised by Express body parsing carry a client status and are safe to show
+const isClientHttpError = (error: unknown): error is Error & { status: number } => {
+  const { status, expose } = (error ?? {}) as { status?: unknown; expose?: unknown };
+  return typeof status === "number" && status >= 400 && status < 500 && expose === true;
+};
+
+export const getErrorCode = (error: unknown): ErrorCode => {
+  if (error instanceof ToolArgumentError) return "INVALID_ARGUMENT";
+  if (error instanceof RecordNotFoundError || error instanceof CoinGeckoNotFoundError) return "NOT_FOUND";
+  if (error instanceof CoinGeckoRateLimitError) return "RATE_LIMITED";
+  // Timeouts are upstream errors too, so check them first
+  if (error instanceof CoinGeckoTimeoutError) return "UPSTREAM_TIMEOUT";
+  if (error instanceof CoinGeckoUpstreamError) return "UPSTREAM_UNAVAILABLE";
+  if (error instanceof CoinGeckoAuthError) return "UPSTREAM_AUTH";
+  if (error instanceof CoinGeckoError) return "UPSTREAM_ERROR";
+  if (isClientHttpError(error)) return "INVALID_REQUEST";
+  return "INTERNAL_ERROR";
+};
+
+/**
+ * Maps any error to its HTTP status and the error envelope returned to
+ * clients. Internal error messages are replaced so stack details and
+ * upstream URLs never leak; the request ID ties the response to the logs.
+ */
+export const toErrorEnvelope = (
+  error: unknown,
+  label: string,
+  requestId: string
+): { status: number; body: ErrorEnvelope } => {
+  const code = getErrorCode(error);
+  const { status, retryable } = ERROR_CODES[code];
+
+  const body: ErrorEnvelope = {
+    error: label,
+    code,
+    message: code === "INTERNAL_ERROR"
+      ? "An unexpected error occurred; include the request_id when reporting it"
+      : error instanceof Error ? error.message : String(error),
+    retryable,
+    request_id: requestId,
+  };
+  if (error instanceof CoinGeckoRateLimitError && error.retryAfterSeconds !== undefined) {
+    body.retry_after_seconds = error.retryAfterSeconds;
+  }
+  if (error instanceof ToolValidationError) {
+    body.errors = error.errors;
+  }
+
+  return { status: isClientHttpError(error) ? error.status : status, body };
+};
@@ -0,0 +1,15 @@
+// Raised by tool handlers when arguments are missing or inconsistent
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolArgumentError";
+  }
+}
+
+// Raised by tool handlers when the record they operate on does not exist
+export class RecordNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordNotFoundError";
+  }
+}
@@ -0,0 +1,207 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { STRING, NUMBER, INTEGER, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import { TICKER_FILTER_PROPERTIES, TICKER_OUTPUT, filterTickers, type Ticker, type TickerFilters } from "./tickers.js";
+import type { ToolDefinition } from "./types.js";
+
+interface ExchangeRow {
+  id: string;
+  name: string;
+  trust_score: number | null;
+  trust_score_rank: number | null;
+  trade_volume_24h_btc: number;
+  [key: string]: unknown;
+}
+
+interface ExchangesArgs {
+  per_page?: number;
+  page?: number;
+  min_trust_score?: number;
+}
+
+interface ExchangeArgs {
+  id: string;
+}
+
+interface ExchangeTickersArgs extends TickerFilters {
+  id: string;
+  coin_ids?: string;
+  page?: string | number;
+  order?: string;
+  depth?: boolean;
+}
+
+export const exchangesTool: ToolDefinition<ExchangesArgs> = {
+  name: "get_exchanges",
+  description: "List exchanges ranked by CoinGecko trust score using /exchanges, with 24h BTC volume and an optional minimum trust score filter",
+  summary: "List exchanges by trust score and volume",
+  inputSchema: {
+    type: "object",
+    properties: {
+      per_page: {
+        type: "integer",
+        description: "Results per page (1-250). Default: 100",
+        minimum: 1,
+        maximum: 250,
+      },
+      page: {
+        type: "integer",
+        description: "Page number. Default: 1",
+        minimum: 1,
+      },
+      min_trust_score: {
+        type: "number",
+        description: "Only return exchanges with at least this trust score (0-10)",
+        minimum: 0,
+        maximum: 10,
+      },
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({
+      id: STRING,
+      name: STRING,
+      trust_score: nullable("integer"),
+      trust_score_rank: nullable("integer"),
+      trade_volume_24h_btc: NUMBER,
+    }, ["id", "name"])),
+    { count: INTEGER }
+  ),
+  rest: {
+    method: "GET",
+    path: "/exchanges",
+    example: "/exchanges?per_page=50&min_trust_score=8",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_exchanges,
+  errorMessage: "Failed to fetch exchanges",
+
+  async handler(args, { client }) {
+    const minTrustScore = args.min_trust_score;
+    const params: Record<string, string> = {
+      per_page: String(args.per_page ?? 100),
+      page: String(args.page ?? 1),
+    };
+
+    const rows = await client.get<ExchangeRow[]>("/exchanges", params);
+    const data = minTrustScore === undefined
+      ? rows
+      : rows.filter((row) => (row.trust_score ?? 0) >= minTrustScore);
+
+    return {
+      success: true,
+      data,
+      count: data.length,
+      parameters: {
+        ...params,
+        ...(minTrustScore !== undefined && { min_trust_score: minTrustScore }),
+      },
+    };
+  },
+};
+
+export const exchangeTool: ToolDefinition<ExchangeArgs> = {
+  name: "get_exchange",
+  description: "Fetch an exchange's profile (country, year, trust score, 24h volume, links) using /exchanges/{id}. Use get_exchange_tickers for its markets",
+  summary: "Get exchange details and trust score",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "CoinGecko exchange ID (e.g., binance, coinbase-exchange)",
+      },
+    },
+    required: ["id"],
+  },
+  outputSchema: toolOutputSchema(objectOf({
+    name: STRING,
+    tickers_included: INTEGER,
+  }, ["tickers_included"])),
+  rest: {
+    method: "GET",
+    path: "/exchanges/:id",
+    example: "/exchanges/binance",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_exchange,
+  errorMessage: "Failed to fetch exchange",
+
+  async handler(args, { client }) {
+    const { tickers, ...profile } = await client.get<Record<string, unknown> & { tickers?: Ticker[] }>(`/exchanges/${pathSegment(args.id, "id")}`);
+
+    return {
+      success: true,
+      data: {
+        ...profile,
+        tickers_included: tickers?.length ?? 0,
+      },
+      parameters: { id: args.id },
+    };
+  },
+};
+
+export const exchangeTickersTool: ToolDefinition<ExchangeTickersArgs> = {
+  name: "get_exchange_tickers",
+  description: "Fetch an exchange's trading pairs using /exchanges/{id}/tickers, filtered by ticker trust score and quote currency",
+  summary: "Get an exchange's tickers filtered by trust score and quote currency",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "CoinGecko exchange ID (e.g., binance)",
+      },
+      coin_ids: {
+        type: "string",
+        description: "Comma-separated CoinGecko coin IDs to restrict tickers to",
+      },
+      page: {
+        type: "integer",
+        description: "Page number (100 tickers per page). Default: 1",
+        minimum: 1,
+      },
+      order: {
+        type: "string",
+        description: "Sort order. Default: trust_score_desc",
+        enum: ["trust_score_desc", "trust_score_asc", "volume_desc", "volume_asc", "base_target"],
+      },
+      depth: {
+        type: "boolean",
+        description: "Include 2% orderbook depth",
+      },
+      ...TICKER_FILTER_PROPERTIES,
+    },
+    required: ["id"],
+  },
+  outputSchema: toolOutputSchema(arrayOf(TICKER_OUTPUT), { count: INTEGER }),
+  rest: {
+    method: "GET",
+    path: "/exchanges/:id/tickers",
+    example: "/exchanges/binance/tickers?coin_ids=bitcoin&trust_score=green&target=USDT",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_exchange_tickers,
+  errorMessage: "Failed to fetch exchange tickers",
+
+  async handler(args, { client }) {
+    const params: Record<string, string> = {};
+    if (args.coin_ids) params.coin_ids = args.coin_ids;
+    if (args.page !== undefined) params.page = String(args.page);
+    if (args.order) params.order = args.order;
+    if (args.depth !== undefined) params.depth = String(args.depth);
+
+    const response = await client.get<{ name: string; tickers: Ticker[] }>(`/exchanges/${pathSegment(args.id, "id")}/tickers`, params);
+    const tickers = filterTickers(response.tickers ?? [], args);
+
+    return {
+      success: true,
+      data: tickers,
+      count: tickers.length,
+      parameters: {
+        id: args.id,
+        ...params,
+        ...(args.trust_score && { trust_score: args.trust_score }),
+        ...(args.target && { target: args.target }),
+      },
+    };
+  },
+};
@@ -0,0 +1,158 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import type { CoinGeckoClient } from "../services/coingecko.client.js";
+import { STRING, NUMBER, INTEGER, nullable, objectOf, mapOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+interface GlobalMarketArgs {
+  vs_currency?: string;
+  top_dominance?: string | number;
+}
+
+interface RawGlobal {
+  data: {
+    active_cryptocurrencies: number;
+    markets: number;
+    total_market_cap: Record<string, number>;
+    total_volume: Record<string, number>;
+    market_cap_percentage: Record<string, number>;
+    market_cap_change_percentage_24h_usd: number;
+    updated_at: number;
+  };
+}
+
+// CoinGecko returns the DeFi figures as decimal strings
+interface RawGlobalDefi {
+  data: {
+    defi_market_cap: string;
+    eth_market_cap: string;
+    defi_to_eth_ratio: string;
+    trading_volume_24h: string;
+    defi_dominance: string;
+    top_coin_name: string;
+    top_coin_defi_dominance: number;
+  };
+}
+
+export interface GlobalMarketSummary {
+  vs_currency: string;
+  total_market_cap: number | null;
+  total_volume_24h: number | null;
+  market_cap_change_percentage_24h_usd: number;
+  dominance: Record<string, number>;
+  active_cryptocurrencies: number;
+  markets: number;
+  defi: {
+    market_cap_usd: number;
+    share_of_total_market_cap: number | null;
+    dominance: number;
+    volume_24h_usd: number;
+    defi_to_eth_ratio: number;
+    top_coin: { name: string; dominance: number };
+  };
+  updated_at: string;
+}
+
+const toNumber = (value: string) => Number.parseFloat(value);
+
+// Combines /global and /global/decentralized_finance_defi into one macro snapshot
+export const fetchGlobalMarket = async (
+  client: CoinGeckoClient,
+  vsCurrency = "usd",
+  topDominance = 10
+): Promise<GlobalMarketSummary> => {
+  const [global, defi] = await Promise.all([
+    client.get<RawGlobal>("/global"),
+    client.get<RawGlobalDefi>("/global/decentralized_finance_defi"),
+  ]);
+
+  const currency = vsCurrency.toLowerCase();
+  const dominance = Object.fromEntries(
+    Object.entries(global.data.market_cap_percentage)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, topDominance)
+  );
+  const defiMarketCap = toNumber(defi.data.defi_market_cap);
+  const totalUsd = global.data.total_market_cap.usd;
+
+  return {
+    vs_currency: currency,
+    total_market_cap: global.data.total_market_cap[currency] ?? null,
+    total_volume_24h: global.data.total_volume[currency] ?? null,
+    market_cap_change_percentage_24h_usd: global.data.market_cap_change_percentage_24h_usd,
+    dominance,
+    active_cryptocurrencies: global.data.active_cryptocurrencies,
+    markets: global.data.markets,
+    defi: {
+      market_cap_usd: defiMarketCap,
+      share_of_total_market_cap: totalUsd ? (defiMarketCap / totalUsd) * 100 : null,
+      dominance: toNumber(defi.data.defi_dominance),
+      volume_24h_usd: toNumber(defi.data.trading_volume_24h),
+      defi_to_eth_ratio: toNumber(defi.data.defi_to_eth_ratio),
+      top_coin: {
+        name: defi.data.top_coin_name,
+        dominance: defi.data.top_coin_defi_dominance,
+      },
+    },
+    updated_at: new Date(global.data.updated_at * 1000).toISOString(),
+  };
+};
+
+export const globalMarketTool: ToolDefinition<GlobalMarketArgs> = {
+  name: "get_global_market",
+  description: "Fetch global crypto market aggregates (total market cap, 24h volume and change, BTC/ETH dominance, DeFi market cap and share) using /global and /global/decentralized_finance_defi",
+  summary: "Get total market cap, dominance, volume and DeFi share",
+  inputSchema: {
+    type: "object",
+    properties: {
+      vs_currency: {
+        type: "string",
+        description: "Currency for total market cap and volume (e.g., usd, eur, btc). Default: usd",
+      },
+      top_dominance: {
+        type: "integer",
+        description: "How many coins to include in the dominance breakdown. Default: 10",
+        minimum: 0,
+      },
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(objectOf({
+    vs_currency: STRING,
+    total_market_cap: nullable("number"),
+    total_volume_24h: nullable("number"),
+    market_cap_change_percentage_24h_usd: NUMBER,
+    dominance: mapOf(NUMBER),
+    active_cryptocurrencies: INTEGER,
+    markets: INTEGER,
+    defi: objectOf({
+      market_cap_usd: NUMBER,
+      share_of_total_market_cap: nullable("number"),
+      dominance: NUMBER,
+      volume_24h_usd: NUMBER,
+      defi_to_eth_ratio: NUMBER,
+      top_coin: objectOf({ name: STRING, dominance: NUMBER }),
+    }),
+    updated_at: STRING,
+  })),
+  rest: {
+    method: "GET",
+    path: "/global",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_global_market,
+  errorMessage: "Failed to fetch global market data",
+
+  async handler(args, { client }) {
+    const vsCurrency = args.vs_currency || "usd";
+    const topDominance = args.top_dominance !== undefined ? Number(args.top_dominance) : 10;
+    const data = await fetchGlobalMarket(client, vsCurrency, topDominance);
+
+    return {
+      success: true,
+      data,
+      parameters: {
+        vs_currency: vsCurrency,
+        top_dominance: topDominance,
+      },
+    };
+  },
+};
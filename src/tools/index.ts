@@ -0,0 +1,90 @@
+import type { ToolDefinition } from "./types.js";
+import { getCoinGeckoClient, type CoinGeckoClient } from "../services/coingecko.client.js";
+import { CacheTrace } from "../services/cache.store.js";
+import { validateToolArgs } from "./validation.js";
+import { simplePriceTool } from "./simplePrice.tool.js";
+import { trendingCoinsTool } from "./trendingCoins.tool.js";
+import { newCoinsTool } from "./newCoins.tool.js";
+import { tokenByAddressTool } from "./tokenByAddress.tool.js";
+import { marketChartTool } from "./marketChart.tool.js";
+import { ohlcTool } from "./ohlc.tool.js";
+import { coinsMarketsTool } from "./coinsMarkets.tool.js";
+import { searchCoinsTool } from "./searchCoins.tool.js";
+import { tokenPricesTool } from "./tokenPrices.tool.js";
+import { globalMarketTool } from "./globalMarket.tool.js";
+import { exchangesTool, exchangeTool, exchangeTickersTool } from "./exchanges.tool.js";
+import { coinTickersTool } from "./coinTickers.tool.js";
+import { categoriesTool } from "./categories.tool.js";
+import { nftsListTool, nftCollectionTool, nftByContractTool } from "./nfts.tool.js";
+import { tokenPoolsTool, poolOhlcvTool, trendingPoolsTool, onchainTokenPriceTool } from "./onchain.tool.js";
+import { portfolioTool } from "./portfolio.tool.js";
+import { createPriceAlertTool, listPriceAlertsTool, deletePriceAlertTool } from "./alerts.tool.js";
+
+export type { ToolDefinition, ToolContext, ToolInputSchema } from "./types.js";
+export { ToolValidationError, type FieldError } from "./validation.js";
+
+// Tool registry - adding a tool means adding its module here
+export const TOOL_REGISTRY: ToolDefinition[] = [
+  simplePriceTool,
+  trendingCoinsTool,
+  newCoinsTool,
+  tokenByAddressTool,
+  marketChartTool,
+  ohlcTool,
+  coinsMarketsTool,
+  searchCoinsTool,
+  tokenPricesTool,
+  globalMarketTool,
+  exchangesTool,
+  exchangeTool,
+  exchangeTickersTool,
+  coinTickersTool,
+  categoriesTool,
+  nftsListTool,
+  nftCollectionTool,
+  nftByContractTool,
+  tokenPoolsTool,
+  poolOhlcvTool,
+  trendingPoolsTool,
+  onchainTokenPriceTool,
+  portfolioTool,
+  createPriceAlertTool,
+  listPriceAlertsTool,
+  deletePriceAlertTool,
+];
+
+export const getToolDefinition = (name: string): ToolDefinition | undefined => {
+  return TOOL_REGISTRY.find((tool) => tool.name === name);
+};
+
+// REST path in documentation form, e.g. /coins/{chainId}/contract/{tokenAddress}
+export const getToolEndpoint = (tool: ToolDefinition): string => {
+  return tool.rest.path.replace(/:(\w+)/g, "{$1}");
+};
+
+// x402 route key for a tool; x402 matches path parameters written as [name]
+export const getToolPaymentRoute = (tool: ToolDefinition, mountPath = "/mcp"): string => {
+  return `${tool.rest.method} ${mountPath}${tool.rest.path.replace(/:(\w+)/g, "[$1]")}`;
+};
+
+export interface ToolExecution {
+  result: Record<string, unknown>;
+  cache: CacheTrace;
+}
+
+// Validates arguments against the tool's schema, runs it against the shared
+// client and stamps the age of the data it used
+export const executeTool = async (
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  client: CoinGeckoClient = getCoinGeckoClient()
+): Promise<ToolExecution> => {
+  const validated = validateToolArgs(tool.inputSchema, args);
+  const cache = new CacheTrace();
+  const result = await tool.handler(validated, { client: client.withTrace(cache) });
+
+  return {
+    result: { ...result, cached_at: cache.cachedAt?.toISOString() ?? null },
+    cache,
+  };
+};
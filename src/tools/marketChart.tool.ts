@@ -0,0 +1,177 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { ToolArgumentError } from "./errors.js";
+import { INTEGER, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import { PRECISION_PROPERTY } from "./simplePrice.tool.js";
+import type { ToolDefinition } from "./types.js";
+
+interface MarketChartArgs {
+  id?: string;
+  chainId?: string;
+  contractAddress?: string;
+  vs_currency?: string;
+  days?: string;
+  from?: string | number;
+  to?: string | number;
+  interval?: string;
+  precision?: string;
+}
+
+type Series = Array<[number, number]>;
+
+// A whole number of days back from now, or max for the full history
+export const CHART_DAYS_PATTERN = "^([1-9][0-9]*|max)$";
+
+interface RawMarketChart {
+  prices?: Series;
+  market_caps?: Series;
+  total_volumes?: Series;
+}
+
+export interface MarketChartRow {
+  timestamp: number;
+  price: number | null;
+  market_cap: number | null;
+  volume: number | null;
+}
+
+// Accepts unix seconds, unix milliseconds or an ISO date and returns unix seconds
+const toUnixSeconds = (value: string | number, field: string): string => {
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return String(Math.floor(numeric > 1e12 ? numeric / 1000 : numeric));
+  }
+
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) {
+    throw new ToolArgumentError(`'${field}' must be a unix timestamp or ISO date`);
+  }
+  return String(Math.floor(parsed / 1000));
+};
+
+// Joins CoinGecko's parallel [timestamp, value] arrays into one row per timestamp
+export const normalizeMarketChart = (raw: RawMarketChart): MarketChartRow[] => {
+  const rows = new Map<number, MarketChartRow>();
+  const rowAt = (timestamp: number) => {
+    let row = rows.get(timestamp);
+    if (!row) {
+      row = { timestamp, price: null, market_cap: null, volume: null };
+      rows.set(timestamp, row);
+    }
+    return row;
+  };
+
+  raw.prices?.forEach(([ts, value]) => { rowAt(ts).price = value; });
+  raw.market_caps?.forEach(([ts, value]) => { rowAt(ts).market_cap = value; });
+  raw.total_volumes?.forEach(([ts, value]) => { rowAt(ts).volume = value; });
+
+  return [...rows.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const marketChartTool: ToolDefinition<MarketChartArgs> = {
+  name: "get_market_chart",
+  description: "Fetch historical price, market cap and volume for a coin (by ID or contract address) using /coins/{id}/market_chart and /market_chart/range",
+  summary: "Get historical price, market cap and volume over a time range",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "CoinGecko coin ID (e.g., bitcoin). Use this or chainId + contractAddress",
+      },
+      chainId: {
+        type: "string",
+        description: "Blockchain identifier for contract lookups (e.g., ethereum, polygon-pos)",
+      },
+      contractAddress: {
+        type: "string",
+        description: "Token contract address, used together with chainId",
+      },
+      vs_currency: {
+        type: "string",
+        description: "Quote currency (e.g., usd, eur). Default: usd",
+      },
+      days: {
+        type: "string",
+        description: "Number of days back from now (e.g., 1, 7, 30, 365, max). Use this or from/to",
+        pattern: CHART_DAYS_PATTERN,
+      },
+      from: {
+        type: "string",
+        description: "Range start as unix timestamp or ISO date. Requires 'to'",
+      },
+      to: {
+        type: "string",
+        description: "Range end as unix timestamp or ISO date. Requires 'from'",
+      },
+      interval: {
+        type: "string",
+        description: "Data interval. Leave empty for automatic granularity",
+        enum: ["5m", "hourly", "daily"],
+      },
+      precision: PRECISION_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({
+      timestamp: INTEGER,
+      price: nullable("number"),
+      market_cap: nullable("number"),
+      volume: nullable("number"),
+    }, ["timestamp", "price", "market_cap", "volume"])),
+    { count: INTEGER }
+  ),
+  rest: {
+    method: "GET",
+    path: "/market_chart",
+    example: "/market_chart?id=bitcoin&vs_currency=usd&days=7",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_market_chart,
+  errorMessage: "Failed to fetch market chart",
+
+  async handler(args, { client }) {
+    const { id, chainId, contractAddress } = args;
+
+    if (!id && !(chainId && contractAddress)) {
+      throw new ToolArgumentError("Provide either 'id' or both 'chainId' and 'contractAddress'");
+    }
+
+    const isRange = args.from !== undefined || args.to !== undefined;
+    if (isRange && (args.from === undefined || args.to === undefined)) {
+      throw new ToolArgumentError("'from' and 'to' must be provided together");
+    }
+    if (!isRange && args.days === undefined) {
+      throw new ToolArgumentError("Provide either 'days' or 'from' and 'to'");
+    }
+
+    const params: Record<string, string> = {
+      vs_currency: args.vs_currency || "usd",
+    };
+    if (isRange) {
+      params.from = toUnixSeconds(args.from!, "from");
+      params.to = toUnixSeconds(args.to!, "to");
+    } else {
+      params.days = args.days!;
+    }
+    if (args.interval !== undefined) params.interval = args.interval;
+    if (args.precision !== undefined) params.precision = args.precision;
+
+    const base = id
+      ? `/coins/${pathSegment(id, "id")}`
+      : `/coins/${pathSegment(chainId!, "chainId")}/contract/${pathSegment(contractAddress!, "contractAddress")}`;
+    const endpoint = `${base}/market_chart${isRange ? "/range" : ""}`;
+    const raw = await client.get<RawMarketChart>(endpoint, params);
+    const rows = normalizeMarketChart(raw);
+
+    return {
+      success: true,
+      data: rows,
+      count: rows.length,
+      parameters: {
+        ...(id ? { id } : { chainId, contractAddress }),
+        ...params,
+      },
+    };
+  },
+};
@@ -0,0 +1,31 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { STRING, OBJECT, arrayOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+export const newCoinsTool: ToolDefinition<Record<string, never>> = {
+  name: "get_new_coins",
+  description: "Retrieve a list of newly listed coins from CoinGecko using /coins/list/new",
+  summary: "Get newly listed coins on CoinGecko",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: [],
+  },
+  outputSchema: toolOutputSchema(arrayOf(OBJECT), { message: STRING }),
+  rest: {
+    method: "GET",
+    path: "/coins/list/new",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_new_coins,
+  errorMessage: "Failed to fetch new coins",
+
+  async handler(_args, { client }) {
+    const data = await client.get("/coins/list/new");
+
+    return {
+      success: true,
+      data,
+      message: "Newly listed coins fetched successfully",
+    };
+  },
+};
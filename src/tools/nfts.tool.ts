@@ -0,0 +1,215 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { STRING, INTEGER, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import type { ToolDefinition } from "./types.js";
+
+interface NftsListArgs {
+  order?: string;
+  asset_platform_id?: string;
+  per_page?: string | number;
+  page?: string | number;
+}
+
+interface NftCollectionArgs {
+  id: string;
+}
+
+interface NftByContractArgs {
+  platform: string;
+  address: string;
+}
+
+type NativeUsd = { native_currency?: number | null; usd?: number | null };
+
+interface RawNftCollection {
+  id: string;
+  name: string;
+  symbol: string;
+  asset_platform_id: string;
+  contract_address: string;
+  native_currency: string;
+  floor_price?: NativeUsd;
+  market_cap?: NativeUsd;
+  volume_24h?: NativeUsd;
+  floor_price_in_usd_24h_percentage_change?: number | null;
+  floor_price_24h_percentage_change?: NativeUsd;
+  market_cap_24h_percentage_change?: NativeUsd;
+  volume_24h_percentage_change?: NativeUsd;
+  number_of_unique_addresses?: number | null;
+  number_of_unique_addresses_24h_percentage_change?: number | null;
+  total_supply?: number | null;
+  one_day_sales?: number | null;
+  one_day_average_sale_price?: number | null;
+  links?: Record<string, string>;
+  description?: string | null;
+}
+
+// Flattens a collection document to the figures agents compare: floor, volume, holders, market cap
+export const summarizeNftCollection = (raw: RawNftCollection) => ({
+  id: raw.id,
+  name: raw.name,
+  symbol: raw.symbol,
+  asset_platform_id: raw.asset_platform_id,
+  contract_address: raw.contract_address,
+  native_currency: raw.native_currency,
+  floor_price: raw.floor_price ?? null,
+  floor_price_24h_change: raw.floor_price_24h_percentage_change ?? null,
+  market_cap: raw.market_cap ?? null,
+  market_cap_24h_change: raw.market_cap_24h_percentage_change ?? null,
+  volume_24h: raw.volume_24h ?? null,
+  volume_24h_change: raw.volume_24h_percentage_change ?? null,
+  holders: raw.number_of_unique_addresses ?? null,
+  holders_24h_change: raw.number_of_unique_addresses_24h_percentage_change ?? null,
+  total_supply: raw.total_supply ?? null,
+  one_day_sales: raw.one_day_sales ?? null,
+  one_day_average_sale_price: raw.one_day_average_sale_price ?? null,
+  links: raw.links ?? {},
+  description: raw.description ?? null,
+});
+
+// Floor price and the other figures are kept as CoinGecko reports them
+const NFT_COLLECTION_OUTPUT = objectOf({
+  id: STRING,
+  name: STRING,
+  symbol: STRING,
+  holders: nullable("number"),
+  total_supply: nullable("number"),
+  description: nullable("string"),
+}, ["id", "name"]);
+
+export const nftsListTool: ToolDefinition<NftsListArgs> = {
+  name: "get_nfts_list",
+  description: "List NFT collections tracked by CoinGecko (ID, name, platform, contract address) using /nfts/list. Use the IDs with get_nft_collection",
+  summary: "List NFT collections and their IDs",
+  inputSchema: {
+    type: "object",
+    properties: {
+      order: {
+        type: "string",
+        description: "Sort order",
+        enum: [
+          "h24_volume_usd_asc", "h24_volume_usd_desc",
+          "floor_price_usd_asc", "floor_price_usd_desc",
+          "market_cap_usd_asc", "market_cap_usd_desc",
+        ],
+      },
+      asset_platform_id: {
+        type: "string",
+        description: "Only list collections on this platform (e.g., ethereum, solana)",
+      },
+      per_page: {
+        type: "integer",
+        description: "Results per page (1-250). Default: 100",
+        minimum: 1,
+        maximum: 250,
+      },
+      page: {
+        type: "integer",
+        description: "Page number. Default: 1",
+        minimum: 1,
+      },
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({ id: STRING, name: STRING, symbol: STRING }, ["id"])),
+    { count: INTEGER }
+  ),
+  rest: {
+    method: "GET",
+    path: "/nfts",
+    example: "/nfts?order=market_cap_usd_desc&per_page=20",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_nfts_list,
+  errorMessage: "Failed to fetch NFT collections",
+
+  async handler(args, { client }) {
+    const params: Record<string, string> = {
+      per_page: String(args.per_page ?? 100),
+      page: String(args.page ?? 1),
+    };
+    if (args.order) params.order = args.order;
+    if (args.asset_platform_id) params.asset_platform_id = args.asset_platform_id;
+
+    const data = await client.get<unknown[]>("/nfts/list", params);
+
+    return {
+      success: true,
+      data,
+      count: data.length,
+      parameters: params,
+    };
+  },
+};
+
+export const nftCollectionTool: ToolDefinition<NftCollectionArgs> = {
+  name: "get_nft_collection",
+  description: "Fetch an NFT collection's floor price, market cap, 24h volume, holders and 24h changes using /nfts/{id}",
+  summary: "Get NFT collection floor price, volume, holders and market cap",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "CoinGecko NFT collection ID (e.g., pudgy-penguins)",
+      },
+    },
+    required: ["id"],
+  },
+  outputSchema: toolOutputSchema(NFT_COLLECTION_OUTPUT),
+  rest: {
+    method: "GET",
+    path: "/nfts/:id",
+    example: "/nfts/pudgy-penguins",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_nft_collection,
+  errorMessage: "Failed to fetch NFT collection",
+
+  async handler(args, { client }) {
+    const raw = await client.get<RawNftCollection>(`/nfts/${pathSegment(args.id, "id")}`);
+
+    return {
+      success: true,
+      data: summarizeNftCollection(raw),
+      parameters: { id: args.id },
+    };
+  },
+};
+
+export const nftByContractTool: ToolDefinition<NftByContractArgs> = {
+  name: "get_nft_by_contract",
+  description: "Fetch an NFT collection's floor price, market cap, 24h volume and holders by contract address using /nfts/{platform}/contract/{address}",
+  summary: "Get NFT collection data by contract address",
+  inputSchema: {
+    type: "object",
+    properties: {
+      platform: {
+        type: "string",
+        description: "Asset platform ID (e.g., ethereum, base)",
+      },
+      address: {
+        type: "string",
+        description: "NFT contract address",
+      },
+    },
+    required: ["platform", "address"],
+  },
+  outputSchema: toolOutputSchema(NFT_COLLECTION_OUTPUT),
+  rest: {
+    method: "GET",
+    path: "/nfts/:platform/contract/:address",
+    example: "/nfts/ethereum/contract/0xbd3531da5cf5857e7cfaa92426877b022e612cf8",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_nft_by_contract,
+  errorMessage: "Failed to fetch NFT collection",
+
+  async handler(args, { client }) {
+    const raw = await client.get<RawNftCollection>(`/nfts/${pathSegment(args.platform, "platform")}/contract/${pathSegment(args.address, "address")}`);
+
+    return {
+      success: true,
+      data: summarizeNftCollection(raw),
+      parameters: { platform: args.platform, address: args.address },
+    };
+  },
+};
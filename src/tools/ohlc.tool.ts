@@ -0,0 +1,163 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { ToolArgumentError } from "./errors.js";
+import { NUMBER, INTEGER, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import { PRECISION_PROPERTY } from "./simplePrice.tool.js";
+import type { ToolDefinition } from "./types.js";
+
+interface OhlcArgs {
+  id: string;
+  vs_currency?: string;
+  days: string | number;
+  interval?: string;
+  precision?: string;
+}
+
+export interface Candle {
+  // Candle close time in unix milliseconds, as reported by CoinGecko
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const OHLC_INTERVALS: Record<string, number> = {
+  "1h": HOUR_MS,
+  "4h": 4 * HOUR_MS,
+  "1d": 24 * HOUR_MS,
+};
+
+const formatDuration = (ms: number): string => {
+  if (ms % (24 * HOUR_MS) === 0) return `${ms / (24 * HOUR_MS)}d`;
+  if (ms % HOUR_MS === 0) return `${ms / HOUR_MS}h`;
+  return `${Math.round(ms / 60_000)}m`;
+};
+
+// Median gap between consecutive candles, i.e. CoinGecko's granularity for the request.
+// The latest candle often closes early, so the smallest gap is not reliable.
+export const detectGranularity = (candles: Candle[]): number | undefined => {
+  const gaps: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const gap = candles[i].timestamp - candles[i - 1].timestamp;
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return undefined;
+
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor((gaps.length - 1) / 2)];
+};
+
+// Aggregates candles into buckets of intervalMs, keyed by bucket close time
+export const resampleCandles = (candles: Candle[], intervalMs: number): Candle[] => {
+  const buckets = new Map<number, Candle>();
+
+  for (const candle of candles) {
+    const closeTime = Math.ceil(candle.timestamp / intervalMs) * intervalMs;
+    const bucket = buckets.get(closeTime);
+    if (!bucket) {
+      buckets.set(closeTime, { ...candle, timestamp: closeTime });
+      continue;
+    }
+    bucket.high = Math.max(bucket.high, candle.high);
+    bucket.low = Math.min(bucket.low, candle.low);
+    bucket.close = candle.close;
+  }
+
+  return [...buckets.values()];
+};
+
+export const ohlcTool: ToolDefinition<OhlcArgs> = {
+  name: "get_ohlc",
+  description: "Fetch OHLC candles for a coin using /coins/{id}/ohlc, optionally resampled to 1h, 4h or 1d. CoinGecko returns 30m candles for 1 day, 4h for 7-30 days and 4d beyond that",
+  summary: "Get OHLC candlesticks with optional interval resampling",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "CoinGecko coin ID (e.g., bitcoin)",
+      },
+      vs_currency: {
+        type: "string",
+        description: "Quote currency (e.g., usd, eur). Default: usd",
+      },
+      days: {
+        type: "string",
+        description: "Number of days back from now",
+        enum: ["1", "7", "14", "30", "90", "180", "365", "max"],
+      },
+      interval: {
+        type: "string",
+        description: "Resample candles to this interval when the source granularity allows it",
+        enum: Object.keys(OHLC_INTERVALS),
+      },
+      precision: PRECISION_PROPERTY,
+    },
+    required: ["id", "days"],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({
+      timestamp: INTEGER,
+      open: NUMBER,
+      high: NUMBER,
+      low: NUMBER,
+      close: NUMBER,
+    }, ["timestamp", "open", "high", "low", "close"])),
+    {
+      count: INTEGER,
+      interval: nullable("string"),
+      source_granularity: nullable("string"),
+    }
+  ),
+  rest: {
+    method: "GET",
+    path: "/coins/:id/ohlc",
+    example: "/coins/bitcoin/ohlc?vs_currency=usd&days=7&interval=1d",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_ohlc,
+  errorMessage: "Failed to fetch OHLC data",
+
+  async handler(args, { client }) {
+    const intervalMs = args.interval !== undefined ? OHLC_INTERVALS[args.interval] : undefined;
+
+    const params: Record<string, string> = {
+      vs_currency: args.vs_currency || "usd",
+      days: String(args.days),
+    };
+    if (args.precision !== undefined) params.precision = args.precision;
+
+    const raw = await client.get<Array<[number, number, number, number, number]>>(`/coins/${pathSegment(args.id, "id")}/ohlc`, params);
+    const source = raw
+      .map(([timestamp, open, high, low, close]) => ({ timestamp, open, high, low, close }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const granularity = detectGranularity(source);
+    let candles = source;
+
+    if (intervalMs && granularity && intervalMs !== granularity) {
+      if (intervalMs < granularity || intervalMs % granularity !== 0) {
+        throw new ToolArgumentError(
+          `Cannot build ${args.interval} candles from ${formatDuration(granularity)} source data for days=${args.days}; ` +
+          `request fewer days (1 day gives 30m candles, 7-30 days gives 4h)`
+        );
+      }
+      candles = resampleCandles(source, intervalMs);
+    }
+
+    return {
+      success: true,
+      data: candles,
+      count: candles.length,
+      interval: args.interval ?? (granularity ? formatDuration(granularity) : null),
+      source_granularity: granularity ? formatDuration(granularity) : null,
+      parameters: {
+        id: args.id,
+        ...params,
+        ...(args.interval !== undefined && { interval: args.interval }),
+      },
+    };
+  },
+};
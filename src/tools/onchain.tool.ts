@@ -0,0 +1,352 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { toOnchainNetwork } from "../config/onchain.config.js";
+import { parseContractAddresses } from "../services/contractAddress.js";
+import {
+  fetchOnchainTokenPrices,
+  fetchTokenPools,
+  flattenPool,
+  splitNetworkId,
+  toNumberOrNull,
+} from "../services/onchain.js";
+import { ToolArgumentError } from "./errors.js";
+import { STRING, NUMBER, INTEGER, nullable, arrayOf, objectOf, mapOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import type { ToolDefinition } from "./types.js";
+
+interface TokenPoolsArgs {
+  network: string;
+  address: string;
+  page?: string | number;
+}
+
+interface PoolOhlcvArgs {
+  network: string;
+  pool: string;
+  timeframe: string;
+  aggregate?: string | number;
+  limit?: string | number;
+  before_timestamp?: string | number;
+  currency?: string;
+  token?: string;
+}
+
+interface TrendingPoolsArgs {
+  network?: string;
+  page?: string | number;
+}
+
+interface OnchainTokenPriceArgs {
+  network: string;
+  addresses: string | string[];
+  include_market_cap?: boolean;
+  include_24hr_vol?: boolean;
+}
+
+const NETWORK_PROPERTY = {
+  type: "string" as const,
+  description: "On-chain network ID (e.g., eth, bsc, base, solana). CoinGecko platform IDs such as ethereum or polygon-pos are also accepted",
+};
+
+const POOL_OUTPUT = objectOf({
+  address: STRING,
+  name: STRING,
+  network: STRING,
+  dex: nullable("string"),
+  base_token: nullable("string"),
+  quote_token: nullable("string"),
+  base_token_price_usd: nullable("number"),
+  quote_token_price_usd: nullable("number"),
+  reserve_usd: nullable("number"),
+  fdv_usd: nullable("number"),
+  market_cap_usd: nullable("number"),
+  volume_usd_24h: nullable("number"),
+  price_change_percentage_24h: nullable("number"),
+  transactions_24h: nullable("object"),
+  created_at: nullable("string"),
+}, ["address", "name", "network"]);
+
+const OHLCV_AGGREGATES: Record<string, number[]> = {
+  day: [1],
+  hour: [1, 4, 12],
+  minute: [1, 5, 15],
+};
+
+// Upper bound accepted by /onchain/simple/networks/{network}/token_price
+const MAX_ONCHAIN_PRICE_ADDRESSES = 30;
+
+export const tokenPoolsTool: ToolDefinition<TokenPoolsArgs> = {
+  name: "get_token_pools",
+  description: "List DEX pools trading a token (liquidity, 24h volume, price, FDV, transactions) using /onchain/networks/{network}/tokens/{address}/pools. Works for tokens not listed on CoinGecko",
+  summary: "Get DEX pools for a token",
+  inputSchema: {
+    type: "object",
+    properties: {
+      network: NETWORK_PROPERTY,
+      address: {
+        type: "string",
+        description: "Token contract address",
+      },
+      page: {
+        type: "integer",
+        description: "Page number (20 pools per page). Default: 1",
+        minimum: 1,
+      },
+    },
+    required: ["network", "address"],
+  },
+  outputSchema: toolOutputSchema(arrayOf(POOL_OUTPUT), { count: INTEGER }),
+  rest: {
+    method: "GET",
+    path: "/onchain/networks/:network/tokens/:address/pools",
+    example: "/onchain/networks/eth/tokens/0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48/pools",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_token_pools,
+  errorMessage: "Failed to fetch token pools",
+
+  async handler(args, { client }) {
+    const page = args.page !== undefined ? Number(args.page) : 1;
+    const pools = await fetchTokenPools(client, args.network, args.address, page);
+
+    return {
+      success: true,
+      data: pools,
+      count: pools.length,
+      parameters: {
+        network: toOnchainNetwork(args.network),
+        address: args.address,
+        page,
+      },
+    };
+  },
+};
+
+export const poolOhlcvTool: ToolDefinition<PoolOhlcvArgs> = {
+  name: "get_pool_ohlcv",
+  description: "Fetch OHLCV candles for a DEX pool using /onchain/networks/{network}/pools/{pool}/ohlcv/{timeframe}",
+  summary: "Get OHLCV candles for a DEX pool",
+  inputSchema: {
+    type: "object",
+    properties: {
+      network: NETWORK_PROPERTY,
+      pool: {
+        type: "string",
+        description: "Pool contract address",
+      },
+      timeframe: {
+        type: "string",
+        description: "Candle timeframe",
+        enum: Object.keys(OHLCV_AGGREGATES),
+      },
+      aggregate: {
+        type: "integer",
+        description: "Timeframe multiplier: day 1; hour 1, 4, 12; minute 1, 5, 15. Default: 1",
+        minimum: 1,
+      },
+      limit: {
+        type: "integer",
+        description: "Number of candles (max 1000). Default: 100",
+        minimum: 1,
+        maximum: 1000,
+      },
+      before_timestamp: {
+        type: "integer",
+        description: "Return candles before this unix timestamp (seconds)",
+        minimum: 0,
+      },
+      currency: {
+        type: "string",
+        description: "Price candles in usd or in the quote token. Default: usd",
+        enum: ["usd", "token"],
+      },
+      token: {
+        type: "string",
+        description: "Which side of the pair to chart: base, quote or a token address. Default: base",
+      },
+    },
+    required: ["network", "pool", "timeframe"],
+  },
+  outputSchema: toolOutputSchema(
+    arrayOf(objectOf({
+      timestamp: INTEGER,
+      open: NUMBER,
+      high: NUMBER,
+      low: NUMBER,
+      close: NUMBER,
+      volume: NUMBER,
+    }, ["timestamp", "open", "high", "low", "close", "volume"])),
+    {
+      count: INTEGER,
+      pair: objectOf({ base: nullable("object"), quote: nullable("object") }),
+    }
+  ),
+  rest: {
+    method: "GET",
+    path: "/onchain/networks/:network/pools/:pool/ohlcv/:timeframe",
+    example: "/onchain/networks/eth/pools/0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640/ohlcv/hour?aggregate=4",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_pool_ohlcv,
+  errorMessage: "Failed to fetch pool OHLCV",
+
+  async handler(args, { client }) {
+    // timeframe is checked by the enum; the allowed aggregates depend on it
+    const aggregates = OHLCV_AGGREGATES[args.timeframe];
+    const aggregate = args.aggregate !== undefined ? Number(args.aggregate) : 1;
+    if (!aggregates.includes(aggregate)) {
+      throw new ToolArgumentError(`'aggregate' for ${args.timeframe} must be one of: ${aggregates.join(", ")}`);
+    }
+
+    const network = toOnchainNetwork(args.network);
+    const params: Record<string, string> = {
+      aggregate: String(aggregate),
+      limit: String(args.limit ?? 100),
+      currency: args.currency || "usd",
+    };
+    if (args.before_timestamp !== undefined) params.before_timestamp = String(args.before_timestamp);
+    if (args.token) params.token = args.token;
+
+    const response = await client.get<{
+      data: { attributes: { ohlcv_list: Array<[number, number, number, number, number, number]> } };
+      meta?: { base?: Record<string, unknown>; quote?: Record<string, unknown> };
+    }>(`/onchain/networks/${pathSegment(network, "network")}/pools/${pathSegment(args.pool, "pool")}/ohlcv/${pathSegment(args.timeframe, "timeframe")}`, params);
+
+    const candles = response.data.attributes.ohlcv_list
+      .map(([timestamp, open, high, low, close, volume]) => ({
+        timestamp: timestamp * 1000,
+        open,
+        high,
+        low,
+        close,
+        volume,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      success: true,
+      data: candles,
+      count: candles.length,
+      pair: {
+        base: response.meta?.base ?? null,
+        quote: response.meta?.quote ?? null,
+      },
+      parameters: {
+        network,
+        pool: args.pool,
+        timeframe: args.timeframe,
+        ...params,
+      },
+    };
+  },
+};
+
+export const trendingPoolsTool: ToolDefinition<TrendingPoolsArgs> = {
+  name: "get_trending_pools",
+  description: "Fetch trending DEX pools across all networks or on one network using /onchain/networks/trending_pools",
+  summary: "Get trending DEX pools",
+  inputSchema: {
+    type: "object",
+    properties: {
+      network: {
+        ...NETWORK_PROPERTY,
+        description: `${NETWORK_PROPERTY.description}. Omit for all networks`,
+      },
+      page: {
+        type: "integer",
+        description: "Page number. Default: 1",
+        minimum: 1,
+      },
+    },
+    required: [],
+  },
+  outputSchema: toolOutputSchema(arrayOf(POOL_OUTPUT), { count: INTEGER }),
+  rest: {
+    method: "GET",
+    path: "/onchain/trending_pools",
+    example: "/onchain/trending_pools?network=base",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_trending_pools,
+  errorMessage: "Failed to fetch trending pools",
+
+  async handler(args, { client }) {
+    const network = args.network ? toOnchainNetwork(args.network) : undefined;
+    const endpoint = network
+      ? `/onchain/networks/${pathSegment(network, "network")}/trending_pools`
+      : "/onchain/networks/trending_pools";
+    const page = String(args.page ?? 1);
+
+    const response = await client.get<{ data: Parameters<typeof flattenPool>[0][] }>(endpoint, { page });
+    // Cross-network results carry the network in the pool ID, e.g. "base_0xabc"
+    const pools = response.data.map((pool) => flattenPool(pool, network ?? splitNetworkId(pool.id).network ?? "unknown"));
+
+    return {
+      success: true,
+      data: pools,
+      count: pools.length,
+      parameters: { ...(network && { network }), page },
+    };
+  },
+};
+
+export const onchainTokenPriceTool: ToolDefinition<OnchainTokenPriceArgs> = {
+  name: "get_onchain_token_price",
+  description: "Fetch USD token prices derived from DEX liquidity using /onchain/simple/networks/{network}/token_price/{addresses}. Covers tokens not listed on CoinGecko",
+  summary: "Get DEX-derived token prices by contract address",
+  inputSchema: {
+    type: "object",
+    properties: {
+      network: NETWORK_PROPERTY,
+      addresses: {
+        type: "array",
+        description: `Token contract addresses, up to ${MAX_ONCHAIN_PRICE_ADDRESSES} (an array, or a comma-separated string over REST)`,
+        items: { type: "string" },
+        minItems: 1,
+        maxItems: MAX_ONCHAIN_PRICE_ADDRESSES,
+      },
+      include_market_cap: {
+        type: "boolean",
+        description: "Include market cap in USD",
+      },
+      include_24hr_vol: {
+        type: "boolean",
+        description: "Include 24h volume in USD",
+      },
+    },
+    required: ["network", "addresses"],
+  },
+  outputSchema: toolOutputSchema(
+    mapOf(objectOf({
+      price_usd: nullable("number"),
+      market_cap_usd: nullable("number"),
+      volume_usd_24h: nullable("number"),
+    })),
+    { not_found: arrayOf(STRING) }
+  ),
+  rest: {
+    method: "GET",
+    path: "/onchain/networks/:network/token_price",
+    example: "/onchain/networks/eth/token_price?addresses=0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_onchain_token_price,
+  errorMessage: "Failed to fetch on-chain token price",
+
+  async handler(args, { client }) {
+    const addresses = parseContractAddresses(args.addresses);
+    if (addresses.length === 0 || addresses.length > MAX_ONCHAIN_PRICE_ADDRESSES) {
+      throw new ToolArgumentError(`'addresses' must contain between 1 and ${MAX_ONCHAIN_PRICE_ADDRESSES} addresses`);
+    }
+
+    const data = await fetchOnchainTokenPrices(client, args.network, addresses, {
+      includeMarketCap: args.include_market_cap,
+      include24hrVol: args.include_24hr_vol,
+    });
+
+    return {
+      success: true,
+      data,
+      not_found: addresses.filter((address) => toNumberOrNull(data[address]?.price_usd) === null),
+      parameters: {
+        network: toOnchainNetwork(args.network),
+        addresses,
+      },
+    };
+  },
+};
@@ -0,0 +1,44 @@
+import type { ToolOutputProperty, ToolOutputSchema } from "./types.js";
+
+export const STRING: ToolOutputProperty = { type: "string" };
+export const NUMBER: ToolOutputProperty = { type: "number" };
+export const INTEGER: ToolOutputProperty = { type: "integer" };
+export const BOOLEAN: ToolOutputProperty = { type: "boolean" };
+export const OBJECT: ToolOutputProperty = { type: "object" };
+
+export const nullable = (type: "string" | "number" | "integer" | "boolean" | "object"): ToolOutputProperty => {
+  return { type: [type, "null"] };
+};
+
+export const arrayOf = (items: ToolOutputProperty): ToolOutputProperty => ({ type: "array", items });
+
+export const objectOf = (properties: Record<string, ToolOutputProperty>, required?: string[]): ToolOutputProperty => {
+  return { type: "object", properties, ...(required && { required }) };
+};
+
+// Object keyed by IDs, currencies or addresses
+export const mapOf = (values: ToolOutputProperty): ToolOutputProperty => {
+  return { type: "object", additionalProperties: values };
+};
+
+/**
+ * Schema for the envelope every handler returns, { success, data, ...extra,
+ * parameters }, plus the cached_at stamp added by executeTool.
+ */
+export const toolOutputSchema = (
+  data: ToolOutputProperty,
+  extra: Record<string, ToolOutputProperty> = {}
+): ToolOutputSchema => ({
+  type: "object",
+  properties: {
+    success: BOOLEAN,
+    data,
+    ...extra,
+    parameters: OBJECT,
+    cached_at: {
+      ...nullable("string"),
+      description: "When the oldest CoinGecko data in this result was fetched (ISO 8601)",
+    },
+  },
+  required: ["success", "data"],
+});
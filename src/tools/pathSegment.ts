@@ -0,0 +1,14 @@
+import { ToolArgumentError } from "./errors.js";
+
+/**
+ * Encodes a caller-supplied value as a single segment of a CoinGecko path, so
+ * an ID such as "../coins/list" cannot reach a different endpoint. "." and
+ * ".." pass through encoding unchanged and would still be resolved by URL
+ * parsing, so they are rejected.
+ */
+export const pathSegment = (value: string, field: string): string => {
+  if (value === "" || value === "." || value === "..") {
+    throw new ToolArgumentError(`'${field}' is not a valid identifier`);
+  }
+  return encodeURIComponent(value);
+};
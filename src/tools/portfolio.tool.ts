@@ -0,0 +1,218 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { normalizeContractAddress } from "../services/contractAddress.js";
+import { ToolArgumentError } from "./errors.js";
+import { STRING, NUMBER, OBJECT, nullable, arrayOf, objectOf, mapOf, toolOutputSchema } from "./outputSchema.js";
+import { fetchTokenPrices, type TokenPriceData } from "./tokenPrices.tool.js";
+import type { ToolDefinition } from "./types.js";
+
+interface Holding {
+  id?: string;
+  chain?: string;
+  address?: string;
+  quantity: number;
+}
+
+interface PortfolioArgs {
+  holdings: Holding[];
+  vs_currencies?: string;
+}
+
+interface Position {
+  key: string;
+  id?: string;
+  chain?: string;
+  address?: string;
+  quantity: number;
+}
+
+interface PricedPosition extends Position {
+  prices: Record<string, number>;
+  values: Record<string, number>;
+  value_change_24h: Record<string, number | null>;
+  // Share of the portfolio, in the first requested currency
+  allocation_percentage: number;
+}
+
+const MAX_HOLDINGS = 200;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// The schema has already parsed GET's JSON string and checked count and quantities;
+// an asset reference needs either form, which it cannot express
+const parseHoldings = (holdings: Holding[]): Position[] => {
+  // Repeated assets are merged so each is priced and reported once
+  const positions = new Map<string, Position>();
+  holdings.forEach((holding, index) => {
+    const { quantity } = holding;
+
+    let position: Position;
+    if (holding.id) {
+      const id = holding.id.trim().toLowerCase();
+      position = { key: id, id, quantity };
+    } else if (holding.chain && holding.address) {
+      const chain = holding.chain.trim().toLowerCase();
+      const address = normalizeContractAddress(holding.address);
+      position = { key: `${chain}:${address}`, chain, address, quantity };
+    } else {
+      throw new ToolArgumentError(`holdings[${index}] needs either 'id' or both 'chain' and 'address'`);
+    }
+
+    const existing = positions.get(position.key);
+    if (existing) existing.quantity += quantity;
+    else positions.set(position.key, position);
+  });
+
+  return [...positions.values()];
+};
+
+export const portfolioTool: ToolDefinition<PortfolioArgs> = {
+  name: "value_portfolio",
+  description: "Value a portfolio of coins (CoinGecko IDs) and tokens (chain + contract address) in one call using /simple/price and /simple/token_price. Returns per-position value, allocation, 24h change in value, totals and any positions that could not be priced",
+  summary: "Value a portfolio with allocation and 24h PnL",
+  inputSchema: {
+    type: "object",
+    properties: {
+      holdings: {
+        type: "array",
+        description: "Positions to value. Each has a quantity and either a CoinGecko 'id' or a 'chain' (asset platform ID) and contract 'address'",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "CoinGecko coin ID (e.g., bitcoin)" },
+            chain: { type: "string", description: "Asset platform ID (e.g., ethereum, base)" },
+            address: { type: "string", description: "Token contract address" },
+            quantity: { type: "number", description: "Amount held", minimum: 0 },
+          },
+          required: ["quantity"],
+        },
+        minItems: 1,
+        maxItems: MAX_HOLDINGS,
+      },
+      vs_currencies: {
+        type: "string",
+        description: "Comma-separated quote currencies; allocation uses the first. Default: usd",
+      },
+    },
+    required: ["holdings"],
+  },
+  outputSchema: toolOutputSchema(objectOf({
+    positions: arrayOf(objectOf({
+      key: STRING,
+      id: STRING,
+      chain: STRING,
+      address: STRING,
+      quantity: NUMBER,
+      prices: mapOf(NUMBER),
+      values: mapOf(NUMBER),
+      value_change_24h: mapOf(nullable("number")),
+      allocation_percentage: NUMBER,
+    }, ["key", "quantity", "prices", "values", "allocation_percentage"])),
+    totals: mapOf(objectOf({
+      value: NUMBER,
+      value_change_24h: NUMBER,
+      change_percentage_24h: nullable("number"),
+    })),
+    unpriced: arrayOf(OBJECT),
+  }, ["positions", "totals", "unpriced"])),
+  rest: {
+    method: "POST",
+    path: "/portfolio/value",
+    example: "/portfolio/value",
+  },
+  pricing: PAYMENT_CONFIG.tools.value_portfolio,
+  errorMessage: "Failed to value portfolio",
+
+  async handler(args, { client }) {
+    const positions = parseHoldings(args.holdings);
+    const currencies = [...new Set((args.vs_currencies || "usd").split(",").map((c) => c.trim().toLowerCase()).filter(Boolean))];
+    const [primary] = currencies;
+    const params = { vs_currencies: currencies.join(","), include_24hr_change: "true" };
+
+    const ids = positions.filter((p) => p.id).map((p) => p.id!);
+    const addressesByChain = new Map<string, string[]>();
+    for (const position of positions) {
+      if (!position.chain) continue;
+      const addresses = addressesByChain.get(position.chain) ?? [];
+      addresses.push(position.address!);
+      addressesByChain.set(position.chain, addresses);
+    }
+
+    // One /simple/price call for every coin, and one batch per chain for tokens.
+    // A chain CoinGecko rejects (e.g. an unknown platform ID) only leaves its own positions unpriced.
+    const [coinPrices, ...tokenPrices] = await Promise.all([
+      ids.length > 0
+        ? client.get<TokenPriceData>("/simple/price", { ...params, ids: ids.join(",") })
+        : Promise.resolve({} as TokenPriceData),
+      ...[...addressesByChain].map(([chain, addresses]) =>
+        fetchTokenPrices(client, chain, addresses, params).then(
+          ({ data }) => [chain, data] as const,
+          (error) => {
+            console.warn(`⚠️  Could not price tokens on ${chain}:`, error instanceof Error ? error.message : error);
+            return [chain, {} as TokenPriceData] as const;
+          }
+        )
+      ),
+    ]);
+    const tokenPricesByChain = new Map(tokenPrices);
+
+    const priced: Omit<PricedPosition, "allocation_percentage">[] = [];
+    const unpriced: Position[] = [];
+
+    for (const position of positions) {
+      const quote = position.id
+        ? coinPrices[position.id]
+        : tokenPricesByChain.get(position.chain!)?.[position.address!];
+      if (!quote || typeof quote[primary] !== "number") {
+        unpriced.push(position);
+        continue;
+      }
+
+      const prices: Record<string, number> = {};
+      const values: Record<string, number> = {};
+      const changes: Record<string, number | null> = {};
+      for (const currency of currencies) {
+        if (typeof quote[currency] !== "number") continue;
+        prices[currency] = quote[currency];
+        values[currency] = position.quantity * quote[currency];
+
+        // Value change implied by the 24h price change: v - v / (1 + pct / 100)
+        const pct = quote[`${currency}_24h_change`];
+        changes[currency] = typeof pct === "number" && pct > -100
+          ? values[currency] - values[currency] / (1 + pct / 100)
+          : null;
+      }
+
+      priced.push({ ...position, prices, values, value_change_24h: changes });
+    }
+
+    const totals: Record<string, { value: number; value_change_24h: number; change_percentage_24h: number | null }> = {};
+    for (const currency of currencies) {
+      const value = priced.reduce((sum, p) => sum + (p.values[currency] ?? 0), 0);
+      const change = priced.reduce((sum, p) => sum + (p.value_change_24h[currency] ?? 0), 0);
+      const previous = value - change;
+      totals[currency] = {
+        value,
+        value_change_24h: change,
+        change_percentage_24h: previous > 0 ? round((change / previous) * 100, 4) : null,
+      };
+    }
+
+    const total = totals[primary].value;
+    const result: PricedPosition[] = priced
+      .map((p) => ({ ...p, allocation_percentage: total > 0 ? round(((p.values[primary] ?? 0) / total) * 100, 4) : 0 }))
+      .sort((a, b) => (b.values[primary] ?? 0) - (a.values[primary] ?? 0));
+
+    return {
+      success: true,
+      data: {
+        positions: result,
+        totals,
+        unpriced,
+      },
+      parameters: {
+        vs_currencies: currencies,
+        holdings: positions.length,
+      },
+    };
+  },
+};
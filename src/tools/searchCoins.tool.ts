@@ -0,0 +1,63 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { STRING, OBJECT, nullable, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+interface SearchCoinsArgs {
+  query: string;
+}
+
+interface SearchResponse {
+  coins?: Array<{ id: string; name: string; symbol: string; market_cap_rank: number | null }>;
+  exchanges?: Array<{ id: string; name: string }>;
+  categories?: Array<{ id: string | number; name: string }>;
+  nfts?: Array<{ id: string; name: string; symbol: string }>;
+}
+
+export const searchCoinsTool: ToolDefinition<SearchCoinsArgs> = {
+  name: "search_coins",
+  description: "Search CoinGecko for coins, exchanges, categories and NFTs by name, ticker or ID using /search. Use this to find the CoinGecko ID for a ticker before calling other tools",
+  summary: "Search coins by name or ticker and find their CoinGecko IDs",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Name, ticker or ID to search for (e.g., BTC, solana, pepe)",
+      },
+    },
+    required: ["query"],
+  },
+  outputSchema: toolOutputSchema(objectOf({
+    coins: arrayOf(objectOf({
+      id: STRING,
+      name: STRING,
+      symbol: STRING,
+      market_cap_rank: nullable("integer"),
+    }, ["id", "name", "symbol"])),
+    exchanges: arrayOf(OBJECT),
+    categories: arrayOf(OBJECT),
+    nfts: arrayOf(OBJECT),
+  }, ["coins", "exchanges", "categories", "nfts"])),
+  rest: {
+    method: "GET",
+    path: "/search",
+    example: "/search?query=solana",
+  },
+  pricing: PAYMENT_CONFIG.tools.search_coins,
+  errorMessage: "Failed to search coins",
+
+  async handler(args, { client }) {
+    const data = await client.get<SearchResponse>("/search", { query: args.query });
+
+    return {
+      success: true,
+      data: {
+        coins: (data.coins ?? []).map(({ id, name, symbol, market_cap_rank }) => ({ id, name, symbol, market_cap_rank })),
+        exchanges: data.exchanges ?? [],
+        categories: data.categories ?? [],
+        nfts: data.nfts ?? [],
+      },
+      parameters: { query: args.query },
+    };
+  },
+};
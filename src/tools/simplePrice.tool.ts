@@ -0,0 +1,110 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { resolveCoinIds, settleUnlisted } from "../services/coinResolver.js";
+import { STRING, OBJECT, nullable, arrayOf, objectOf, mapOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition, ToolInputProperty } from "./types.js";
+
+// Optional flags shared by the /simple/price and /simple/token_price tools
+export interface PriceFlagArgs {
+  include_market_cap?: boolean;
+  include_24hr_vol?: boolean;
+  include_24hr_change?: boolean;
+  include_last_updated_at?: boolean;
+  precision?: string;
+}
+
+// CoinGecko's precision parameter: a number of decimal places from 0 to 18, or full
+export const PRECISION_PROPERTY: ToolInputProperty = {
+  type: "string",
+  description: "Decimal precision for values (0-18 or full)",
+  pattern: "^(full|[0-9]|1[0-8])$",
+};
+
+export const PRICE_FLAG_PROPERTIES: Record<keyof PriceFlagArgs, ToolInputProperty> = {
+  include_market_cap: {
+    type: "boolean",
+    description: "Include market cap in the response",
+  },
+  include_24hr_vol: {
+    type: "boolean",
+    description: "Include 24h volume in the response",
+  },
+  include_24hr_change: {
+    type: "boolean",
+    description: "Include 24h price change in the response",
+  },
+  include_last_updated_at: {
+    type: "boolean",
+    description: "Include last update timestamp in the response",
+  },
+  precision: PRECISION_PROPERTY,
+};
+
+export const buildPriceFlagParams = (args: PriceFlagArgs): Record<string, string> => {
+  const params: Record<string, string> = {};
+  for (const key of Object.keys(PRICE_FLAG_PROPERTIES) as Array<keyof PriceFlagArgs>) {
+    if (args[key] !== undefined) params[key] = String(args[key]);
+  }
+  return params;
+};
+
+interface SimplePriceArgs extends PriceFlagArgs {
+  ids: string;
+  vs_currencies: string;
+}
+
+export const simplePriceTool: ToolDefinition<SimplePriceArgs> = {
+  name: "get_simple_price",
+  description: "Fetch the current price of one or more tokens using CoinGecko's /simple/price endpoint. Tickers and names are resolved to CoinGecko IDs; ambiguous tickers are listed with candidates instead of guessed",
+  summary: "Get current prices for multiple crypto tokens",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ids: {
+        type: "string",
+        description: "Comma-separated list of CoinGecko IDs, tickers or names (e.g., bitcoin,ETH,Solana)",
+      },
+      vs_currencies: {
+        type: "string",
+        description: "Comma-separated list of quote currencies (e.g., usd,eur,inr)",
+      },
+      ...PRICE_FLAG_PROPERTIES,
+    },
+    required: ["ids", "vs_currencies"],
+  },
+  outputSchema: toolOutputSchema(mapOf(mapOf(nullable("number"))), {
+    resolution: objectOf({
+      resolved: mapOf(STRING),
+      ambiguous: mapOf(arrayOf(OBJECT)),
+      unlisted: arrayOf(STRING),
+      not_found: arrayOf(STRING),
+    }),
+  }),
+  rest: {
+    method: "GET",
+    path: "/simple/price",
+    example: "/simple/price?ids=bitcoin,ethereum&vs_currencies=usd",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_simple_price,
+  errorMessage: "Failed to fetch price data",
+
+  async handler(args, { client }) {
+    const queries = String(args.ids).split(",").map((q) => q.trim()).filter(Boolean);
+    const resolution = await resolveCoinIds(client, queries);
+    const ids = [...new Set(Object.values(resolution.resolved))];
+
+    const params: Record<string, string> = {
+      ids: ids.join(","),
+      vs_currencies: args.vs_currencies,
+      ...buildPriceFlagParams(args),
+    };
+
+    const data = ids.length > 0 ? await client.get<Record<string, unknown>>("/simple/price", params) : {};
+
+    return {
+      success: true,
+      data,
+      parameters: params,
+      resolution: settleUnlisted(resolution, (id) => id in data),
+    };
+  },
+};
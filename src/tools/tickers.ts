@@ -0,0 +1,130 @@
+import { STRING, NUMBER, INTEGER, arrayOf, objectOf } from "./outputSchema.js";
+
+export interface Ticker {
+  base: string;
+  target: string;
+  market: { name: string; identifier: string; has_trading_incentive?: boolean };
+  last: number;
+  volume: number;
+  converted_last?: Record<string, number>;
+  converted_volume?: Record<string, number>;
+  trust_score: "green" | "yellow" | "red" | null;
+  bid_ask_spread_percentage?: number | null;
+  is_anomaly?: boolean;
+  is_stale?: boolean;
+  trade_url?: string | null;
+  coin_id?: string;
+  target_coin_id?: string;
+}
+
+export interface TickerFilters {
+  // Minimum trust colour: green keeps only green, yellow keeps green and yellow
+  trust_score?: string;
+  // Comma-separated quote currencies, e.g. USDT,USD
+  target?: string;
+}
+
+const TRUST_LEVELS: Record<string, number> = { green: 3, yellow: 2, red: 1 };
+
+export const TICKER_FILTER_PROPERTIES = {
+  trust_score: {
+    type: "string" as const,
+    description: "Minimum ticker trust score: green (only green), yellow (green and yellow) or red (all)",
+    enum: Object.keys(TRUST_LEVELS),
+  },
+  target: {
+    type: "string" as const,
+    description: "Comma-separated quote currencies to keep (e.g., USDT,USD,USDC)",
+  },
+};
+
+export const TICKER_OUTPUT = objectOf({
+  base: STRING,
+  target: STRING,
+  market: objectOf({ name: STRING, identifier: STRING }),
+  last: NUMBER,
+  volume: NUMBER,
+  trust_score: { type: ["string", "null"], description: "green, yellow or red" },
+}, ["base", "target", "market"]);
+
+export const filterTickers = (tickers: Ticker[], filters: TickerFilters): Ticker[] => {
+  // trust_score is one of the TRUST_LEVELS keys, checked by the tool's inputSchema
+  const minTrust = filters.trust_score ? TRUST_LEVELS[filters.trust_score] : undefined;
+  const targets = filters.target
+    ? new Set(filters.target.split(",").map((t) => t.trim().toUpperCase()).filter(Boolean))
+    : undefined;
+
+  return tickers.filter((ticker) =>
+    (minTrust === undefined || (TRUST_LEVELS[ticker.trust_score ?? ""] ?? 0) >= minTrust) &&
+    (!targets || targets.has(ticker.target.toUpperCase()))
+  );
+};
+
+export interface VenueSummary {
+  venue_count: number;
+  total_volume_usd: number;
+  top_venue_share: number;
+  top3_share: number;
+  // Herfindahl-Hirschman index of venue volume shares, 0-10000
+  hhi: number;
+  concentration: "high" | "moderate" | "low";
+  venues: Array<{
+    exchange_id: string;
+    exchange: string;
+    volume_usd: number;
+    share: number;
+    pairs: string[];
+  }>;
+}
+
+export const VENUE_SUMMARY_OUTPUT = objectOf({
+  venue_count: INTEGER,
+  total_volume_usd: NUMBER,
+  top_venue_share: NUMBER,
+  top3_share: NUMBER,
+  hhi: { type: "number", description: "Herfindahl-Hirschman index of venue volume shares, 0-10000" },
+  concentration: { type: "string", enum: ["high", "moderate", "low"] },
+  venues: arrayOf(objectOf({
+    exchange_id: STRING,
+    exchange: STRING,
+    volume_usd: NUMBER,
+    share: NUMBER,
+    pairs: arrayOf(STRING),
+  })),
+}, ["venue_count", "total_volume_usd", "concentration", "venues"]);
+
+// Aggregates USD volume per exchange to show where a coin actually trades
+export const summarizeVenues = (tickers: Ticker[], limit = 10): VenueSummary => {
+  const venues = new Map<string, VenueSummary["venues"][number]>();
+
+  for (const ticker of tickers) {
+    if (ticker.is_anomaly || ticker.is_stale) continue;
+
+    const id = ticker.market.identifier;
+    let venue = venues.get(id);
+    if (!venue) {
+      venue = { exchange_id: id, exchange: ticker.market.name, volume_usd: 0, share: 0, pairs: [] };
+      venues.set(id, venue);
+    }
+    venue.volume_usd += ticker.converted_volume?.usd ?? 0;
+    venue.pairs.push(`${ticker.base}/${ticker.target}`);
+  }
+
+  const sorted = [...venues.values()].sort((a, b) => b.volume_usd - a.volume_usd);
+  const total = sorted.reduce((sum, venue) => sum + venue.volume_usd, 0);
+  for (const venue of sorted) {
+    venue.share = total > 0 ? (venue.volume_usd / total) * 100 : 0;
+  }
+
+  const hhi = sorted.reduce((sum, venue) => sum + venue.share ** 2, 0);
+
+  return {
+    venue_count: sorted.length,
+    total_volume_usd: total,
+    top_venue_share: sorted[0]?.share ?? 0,
+    top3_share: sorted.slice(0, 3).reduce((sum, venue) => sum + venue.share, 0),
+    hhi: Math.round(hhi),
+    concentration: hhi > 2500 ? "high" : hhi > 1500 ? "moderate" : "low",
+    venues: sorted.slice(0, limit),
+  };
+};
@@ -0,0 +1,141 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { CoinGeckoNotFoundError } from "../services/coingecko.errors.js";
+import type { CoinGeckoClient } from "../services/coingecko.client.js";
+import { normalizeContractAddress } from "../services/contractAddress.js";
+import { fetchOnchainTokenPrices, fetchTokenPools } from "../services/onchain.js";
+import { STRING, OBJECT, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import type { ToolDefinition } from "./types.js";
+
+interface TokenByAddressArgs {
+  chainId: string;
+  tokenAddress: string;
+  localization?: boolean;
+  tickers?: boolean;
+  market_data?: boolean;
+  community_data?: boolean;
+  developer_data?: boolean;
+  sparkline?: boolean;
+}
+
+const OPTIONAL_FLAGS = [
+  "localization",
+  "tickers",
+  "market_data",
+  "community_data",
+  "developer_data",
+  "sparkline",
+] as const;
+
+// Pools included when falling back to on-chain data
+const FALLBACK_POOL_COUNT = 5;
+
+// Prices a token CoinGecko does not list from its DEX pools, or returns null
+const fetchOnchainFallback = async (client: CoinGeckoClient, chainId: string, tokenAddress: string) => {
+  const address = normalizeContractAddress(tokenAddress);
+  const [prices, pools] = await Promise.all([
+    fetchOnchainTokenPrices(client, chainId, [address], { includeMarketCap: true, include24hrVol: true }),
+    fetchTokenPools(client, chainId, address).catch(() => []),
+  ]);
+
+  const price = prices[address];
+  if (!price || price.price_usd === null) return null;
+
+  return { ...price, pools: pools.slice(0, FALLBACK_POOL_COUNT) };
+};
+
+export const tokenByAddressTool: ToolDefinition<TokenByAddressArgs> = {
+  name: "get_token_price_by_address",
+  description: "Fetch USD price & market data for a token using /coins/{chainId}/contract/{tokenAddress}. Tokens not listed on CoinGecko fall back to DEX-derived on-chain prices",
+  summary: "Get token data by contract address",
+  inputSchema: {
+    type: "object",
+    properties: {
+      chainId: {
+        type: "string",
+        description: "Blockchain identifier used by CoinGecko (e.g., ethereum, polygon-pos, binance-smart-chain)",
+      },
+      tokenAddress: {
+        type: "string",
+        description: "Token contract address",
+      },
+      localization: {
+        type: "boolean",
+        description: "Include localized language in response. Default: true",
+      },
+      tickers: {
+        type: "boolean",
+        description: "Include tickers data. Default: true",
+      },
+      market_data: {
+        type: "boolean",
+        description: "Include market data. Default: true",
+      },
+      community_data: {
+        type: "boolean",
+        description: "Include community data. Default: true",
+      },
+      developer_data: {
+        type: "boolean",
+        description: "Include developer data. Default: true",
+      },
+      sparkline: {
+        type: "boolean",
+        description: "Include sparkline 7 days data. Default: false",
+      },
+    },
+    required: ["chainId", "tokenAddress"],
+  },
+  outputSchema: toolOutputSchema(OBJECT, {
+    source: { type: "string", enum: ["onchain"], description: "Set when the price comes from DEX liquidity" },
+    message: STRING,
+  }),
+  rest: {
+    method: "GET",
+    path: "/coins/:chainId/contract/:tokenAddress",
+    example: "/coins/ethereum/contract/0x...",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_token_price_by_address,
+  errorMessage: "Failed to fetch token data",
+
+  async handler(args, { client }) {
+    const { chainId, tokenAddress } = args;
+
+    const params: Record<string, string> = {};
+    for (const flag of OPTIONAL_FLAGS) {
+      if (args[flag] !== undefined) params[flag] = String(args[flag]);
+    }
+
+    const endpoint = `/coins/${pathSegment(chainId, "chainId")}/contract/${pathSegment(tokenAddress, "tokenAddress")}`;
+    let data: unknown;
+    try {
+      data = await client.get(endpoint, Object.keys(params).length > 0 ? params : undefined);
+    } catch (error) {
+      if (!(error instanceof CoinGeckoNotFoundError)) throw error;
+
+      const onchain = await fetchOnchainFallback(client, chainId, tokenAddress).catch(() => null);
+      if (!onchain) throw error;
+
+      return {
+        success: true,
+        source: "onchain",
+        data: onchain,
+        message: "Token not listed on CoinGecko; price derived from DEX liquidity",
+        parameters: {
+          chainId,
+          tokenAddress,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      parameters: {
+        chainId,
+        tokenAddress,
+        ...params,
+      },
+    };
+  },
+};
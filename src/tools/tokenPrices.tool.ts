@@ -0,0 +1,141 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { normalizeContractAddress, parseContractAddresses } from "../services/contractAddress.js";
+import type { CoinGeckoClient } from "../services/coingecko.client.js";
+import { ToolArgumentError } from "./errors.js";
+import { STRING, nullable, arrayOf, mapOf, toolOutputSchema } from "./outputSchema.js";
+import { pathSegment } from "./pathSegment.js";
+import { PRICE_FLAG_PROPERTIES, buildPriceFlagParams, type PriceFlagArgs } from "./simplePrice.tool.js";
+import type { ToolDefinition } from "./types.js";
+
+interface TokenPricesArgs extends PriceFlagArgs {
+  platform: string;
+  contract_addresses: string | string[];
+  vs_currencies: string;
+}
+
+export type TokenPriceData = Record<string, Record<string, number>>;
+
+// Keeps request URLs well under common 2KB limits
+const MAX_ADDRESS_CHARS_PER_REQUEST = 1500;
+const MAX_ADDRESSES_PER_REQUEST = 30;
+// Bounds the upstream fan-out of a single call
+export const MAX_TOKEN_ADDRESSES = 150;
+const MAX_CONCURRENT_REQUESTS = 3;
+
+const chunkAddresses = (addresses: string[]): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const address of addresses) {
+    if (current.length > 0 && (current.length >= MAX_ADDRESSES_PER_REQUEST || length + address.length + 1 > MAX_ADDRESS_CHARS_PER_REQUEST)) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(address);
+    length += address.length + 1;
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+};
+
+// Prices many addresses on one platform, splitting them across as few requests as the URL limits allow
+export const fetchTokenPrices = async (
+  client: CoinGeckoClient,
+  platform: string,
+  addresses: string[],
+  params: Record<string, string>
+): Promise<{ data: TokenPriceData; requests: number }> => {
+  const chunks = chunkAddresses(addresses);
+  const endpoint = `/simple/token_price/${pathSegment(platform, "platform")}`;
+  const responses: TokenPriceData[] = new Array(chunks.length);
+
+  // A few workers take chunks in turn, so at most MAX_CONCURRENT_REQUESTS are in flight
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      responses[index] = await client.get<TokenPriceData>(endpoint, {
+        ...params,
+        contract_addresses: chunks[index].join(","),
+      });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_REQUESTS, chunks.length) }, worker));
+
+  const data: TokenPriceData = {};
+  for (const response of responses) {
+    for (const [address, prices] of Object.entries(response)) {
+      data[normalizeContractAddress(address)] = prices;
+    }
+  }
+
+  return { data, requests: chunks.length };
+};
+
+export const tokenPricesTool: ToolDefinition<TokenPricesArgs> = {
+  name: "get_token_prices_by_addresses",
+  description: "Fetch current prices for many tokens on one chain by contract address using /simple/token_price/{platform}. Results are keyed by normalised (lowercase EVM) contract address",
+  summary: "Get prices for multiple tokens by contract address",
+  inputSchema: {
+    type: "object",
+    properties: {
+      platform: {
+        type: "string",
+        description: "Asset platform ID used by CoinGecko (e.g., ethereum, polygon-pos, base, solana)",
+      },
+      contract_addresses: {
+        type: "array",
+        description: `Token contract addresses, up to ${MAX_TOKEN_ADDRESSES} (an array, or a comma-separated string over REST)`,
+        items: { type: "string" },
+        minItems: 1,
+        maxItems: MAX_TOKEN_ADDRESSES,
+      },
+      vs_currencies: {
+        type: "string",
+        description: "Comma-separated list of quote currencies (e.g., usd,eur)",
+      },
+      ...PRICE_FLAG_PROPERTIES,
+    },
+    required: ["platform", "contract_addresses", "vs_currencies"],
+  },
+  outputSchema: toolOutputSchema(mapOf(mapOf(nullable("number"))), {
+    not_found: arrayOf(STRING),
+    requests: { type: "integer", description: "Upstream requests used to fetch the batch" },
+  }),
+  rest: {
+    method: "GET",
+    path: "/simple/token_price/:platform",
+    example: "/simple/token_price/ethereum?contract_addresses=0xa0b8...,0xdac1...&vs_currencies=usd",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_token_prices_by_addresses,
+  errorMessage: "Failed to fetch token prices",
+
+  async handler(args, { client }) {
+    const addresses = parseContractAddresses(args.contract_addresses);
+    if (addresses.length === 0) {
+      throw new ToolArgumentError("'contract_addresses' must contain at least one address");
+    }
+
+    const params: Record<string, string> = {
+      vs_currencies: args.vs_currencies,
+      ...buildPriceFlagParams(args),
+    };
+
+    const { data, requests } = await fetchTokenPrices(client, args.platform, addresses, params);
+
+    return {
+      success: true,
+      data,
+      not_found: addresses.filter((address) => !data[address]),
+      parameters: {
+        platform: args.platform,
+        contract_addresses: addresses,
+        ...params,
+      },
+      requests,
+    };
+  },
+};
@@ -0,0 +1,34 @@
+import { PAYMENT_CONFIG } from "../config/payment.config.js";
+import { STRING, OBJECT, arrayOf, objectOf, toolOutputSchema } from "./outputSchema.js";
+import type { ToolDefinition } from "./types.js";
+
+export const trendingCoinsTool: ToolDefinition<Record<string, never>> = {
+  name: "get_trending_coins",
+  description: "Retrieve trending coins from CoinGecko using /search/trending",
+  summary: "Get currently trending coins on CoinGecko",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: [],
+  },
+  outputSchema: toolOutputSchema(
+    objectOf({ coins: arrayOf(OBJECT), nfts: arrayOf(OBJECT), categories: arrayOf(OBJECT) }),
+    { message: STRING }
+  ),
+  rest: {
+    method: "GET",
+    path: "/search/trending",
+  },
+  pricing: PAYMENT_CONFIG.tools.get_trending_coins,
+  errorMessage: "Failed to fetch trending coins",
+
+  async handler(_args, { client }) {
+    const data = await client.get("/search/trending");
+
+    return {
+      success: true,
+      data,
+      message: "Trending coins fetched successfully",
+    };
+  },
+};
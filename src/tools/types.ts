@@ -0,0 +1,78 @@
+import type { ToolPricing } from "../config/payment.config.js";
+import type { CoinGeckoClient } from "../services/coingecko.client.js";
+
+// JSON Schema subset used to describe tool inputs
+export interface ToolInputProperty {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: Array<string | number>;
+  // Inclusive bounds for numbers
+  minimum?: number;
+  maximum?: number;
+  // Regular expression string values must match, anchored as JSON Schema patterns are not
+  pattern?: string;
+  items?: ToolInputProperty;
+  minItems?: number;
+  maxItems?: number;
+  // Object members, for array items such as portfolio holdings
+  properties?: Record<string, ToolInputProperty>;
+  required?: string[];
+}
+
+export interface ToolInputSchema {
+  type: "object";
+  properties: Record<string, ToolInputProperty>;
+  required: string[];
+}
+
+type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+
+// JSON Schema subset used to describe tool results (MCP structuredContent)
+export interface ToolOutputProperty {
+  // Omitted for upstream values whose shape CoinGecko does not guarantee
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: Array<string | number>;
+  properties?: Record<string, ToolOutputProperty>;
+  required?: string[];
+  additionalProperties?: ToolOutputProperty;
+  items?: ToolOutputProperty;
+}
+
+export interface ToolOutputSchema {
+  type: "object";
+  properties: Record<string, ToolOutputProperty>;
+  required: string[];
+}
+
+export interface ToolContext {
+  client: CoinGeckoClient;
+}
+
+export interface ToolRestRoute {
+  method: "GET" | "POST" | "DELETE";
+  // Express-style path relative to the /mcp mount, e.g. /coins/:chainId/contract/:tokenAddress
+  path: string;
+  // Example request path shown on the root endpoint
+  example?: string;
+}
+
+/**
+ * A single tool declaration. MCP listing and dispatch, the REST routes,
+ * the x402 route map and the health/info capability lists are all derived
+ * from these.
+ */
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  // Short description used by /info
+  summary: string;
+  inputSchema: ToolInputSchema;
+  // Shape of the result returned as structuredContent
+  outputSchema: ToolOutputSchema;
+  rest: ToolRestRoute;
+  pricing: ToolPricing;
+  // Error label returned when the handler throws
+  errorMessage: string;
+  handler: (args: TArgs, ctx: ToolContext) => Promise<Record<string, unknown>>;
+}
@@ -0,0 +1,168 @@
+import { ToolArgumentError } from "./errors.js";
+import type { ToolInputProperty, ToolInputSchema } from "./types.js";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Raised when arguments do not match a tool's inputSchema; carries one entry per offending field
+export class ToolValidationError extends ToolArgumentError {
+  constructor(public errors: FieldError[]) {
+    super(`Invalid arguments: ${errors.map((e) => `${e.field} ${e.message}`).join("; ")}`);
+    this.name = "ToolValidationError";
+  }
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === "";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const describeType = (property: ToolInputProperty) => {
+  return property.type === "integer" ? "an integer" : property.type === "array" || property.type === "object" ? `an ${property.type}` : `a ${property.type}`;
+};
+
+// Coerces one value to its declared type. Query strings only carry text, and
+// MCP clients often quote numbers, so unambiguous string forms are accepted.
+const coerceValue = (value: unknown, property: ToolInputProperty): { value?: unknown; error?: string } => {
+  switch (property.type) {
+    case "string":
+      if (typeof value === "string") return { value };
+      if (typeof value === "number" || typeof value === "boolean") return { value: String(value) };
+      // Comma-separated list params also accept arrays, e.g. ids: ["bitcoin", "ethereum"]
+      if (Array.isArray(value) && value.every((v) => typeof v === "string" || typeof v === "number")) {
+        return { value: value.join(",") };
+      }
+      break;
+
+    case "number":
+    case "integer": {
+      const numeric = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof numeric === "number" && Number.isFinite(numeric)) {
+        if (property.type === "integer" && !Number.isInteger(numeric)) break;
+        return { value: numeric };
+      }
+      break;
+    }
+
+    case "boolean":
+      if (typeof value === "boolean") return { value };
+      if (value === "true" || value === "1") return { value: true };
+      if (value === "false" || value === "0") return { value: false };
+      break;
+
+    case "array":
+      if (Array.isArray(value)) return { value };
+      if (typeof value === "string") {
+        // Arrays of objects arrive as JSON over GET; scalar arrays as comma-separated lists
+        if (property.items?.type === "object") {
+          try {
+            const parsed = JSON.parse(value);
+            if (Array.isArray(parsed)) return { value: parsed };
+          } catch {
+            // Reported as a type error below
+          }
+          break;
+        }
+        return { value: value.split(",").map((v) => v.trim()).filter(Boolean) };
+      }
+      break;
+
+    case "object":
+      if (isPlainObject(value)) return { value };
+      break;
+  }
+
+  return { error: `must be ${describeType(property)}` };
+};
+
+const validateValue = (value: unknown, property: ToolInputProperty, field: string, errors: FieldError[]): unknown => {
+  const coerced = coerceValue(value, property);
+  if (coerced.error) {
+    errors.push({ field, message: coerced.error });
+    return value;
+  }
+  const result = coerced.value;
+
+  if (property.enum && !property.enum.map(String).includes(String(result))) {
+    errors.push({ field, message: `must be one of: ${property.enum.join(", ")}` });
+  }
+
+  if (typeof result === "string" && property.pattern && !new RegExp(property.pattern).test(result)) {
+    errors.push({ field, message: `must match the pattern ${property.pattern}` });
+  }
+
+  if (typeof result === "number") {
+    if (property.minimum !== undefined && result < property.minimum) {
+      errors.push({ field, message: `must be at least ${property.minimum}` });
+    }
+    if (property.maximum !== undefined && result > property.maximum) {
+      errors.push({ field, message: `must be at most ${property.maximum}` });
+    }
+  }
+
+  if (Array.isArray(result)) {
+    if (property.minItems !== undefined && result.length < property.minItems) {
+      errors.push({ field, message: `must contain at least ${property.minItems} item(s)` });
+    }
+    if (property.maxItems !== undefined && result.length > property.maxItems) {
+      errors.push({ field, message: `must contain at most ${property.maxItems} items` });
+    }
+    return property.items
+      ? result.map((item, index) => validateValue(item, property.items!, `${field}[${index}]`, errors))
+      : result;
+  }
+
+  if (isPlainObject(result) && property.properties) {
+    return validateProperties(result, property.properties, property.required ?? [], field, errors);
+  }
+
+  return result;
+};
+
+const validateProperties = (
+  args: Record<string, unknown>,
+  properties: Record<string, ToolInputProperty>,
+  required: string[],
+  path: string,
+  errors: FieldError[]
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(args)) {
+    const field = path ? `${path}.${key}` : key;
+    const property = properties[key];
+
+    // Undeclared keys (e.g. extra query params) pass through untouched
+    if (!property) {
+      result[key] = value;
+    } else if (!isMissing(value)) {
+      result[key] = validateValue(value, property, field, errors);
+    }
+  }
+
+  for (const key of required) {
+    if (isMissing(args[key])) {
+      errors.push({ field: path ? `${path}.${key}` : key, message: "is required" });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Checks arguments against a tool's inputSchema and returns them coerced to
+ * the declared types. Empty optional values are dropped. Throws a
+ * ToolValidationError listing every problem found.
+ */
+export const validateToolArgs = (schema: ToolInputSchema, args: Record<string, unknown>): Record<string, unknown> => {
+  const errors: FieldError[] = [];
+  const validated = validateProperties(args, schema.properties, schema.required, "", errors);
+
+  if (errors.length > 0) {
+    throw new ToolValidationError(errors);
+  }
+  return validated;
+};
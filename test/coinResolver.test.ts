@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { CoinGeckoClient } from "../src/services/coingecko.client.js";
+import { resolveCoinIds, settleUnlisted } from "../src/services/coinResolver.js";
+import { executeTool, getToolDefinition } from "../src/tools/index.js";
+import { startMockUpstream, type MockUpstream } from "./helpers/mockUpstream.js";
+
+const COINS = [
+  { id: "bitcoin", symbol: "btc", name: "Bitcoin" },
+  { id: "batcat", symbol: "btc", name: "Batcat" },
+  { id: "ethereum", symbol: "eth", name: "Ethereum" },
+  { id: "solana", symbol: "sol", name: "Solana" },
+  { id: "uniswap", symbol: "uni", name: "Uniswap" },
+  { id: "universe-token", symbol: "uni", name: "Universe" },
+];
+
+const MARKET_CAPS: Record<string, number> = {
+  bitcoin: 1_000_000_000,
+  batcat: 1_000,
+  uniswap: 5_000_000,
+  "universe-token": 2_000_000,
+};
+
+describe("resolveCoinIds", () => {
+  let upstream: MockUpstream;
+  let client: CoinGeckoClient;
+
+  before(async () => {
+    upstream = await startMockUpstream(({ path, query }) => {
+      if (path === "/coins/list") return { body: COINS };
+      if (path === "/coins/markets") {
+        const ids = query.get("ids")!.split(",");
+        return { body: ids.map((id) => ({ id, market_cap: MARKET_CAPS[id] ?? null, market_cap_rank: null })) };
+      }
+      if (path === "/simple/price") {
+        const ids = query.get("ids")!.split(",").filter((id) => id !== "typo");
+        return { body: Object.fromEntries(ids.map((id) => [id, { usd: 1 }])) };
+      }
+      return { status: 404 };
+    });
+    client = new CoinGeckoClient({ baseUrl: upstream.url, rateLimitPerMinute: 0, priceBatchWindowMs: 0 });
+  });
+  after(() => upstream.close());
+
+  it("resolves IDs, tickers and names case-insensitively", async () => {
+    const resolution = await resolveCoinIds(client, ["ethereum", "SOL", "Solana"]);
+
+    assert.deepEqual(resolution.resolved, { ethereum: "ethereum", SOL: "solana", Solana: "solana" });
+    assert.deepEqual(resolution.not_found, []);
+  });
+
+  it("resolves a shared ticker to a coin that dominates by market cap", async () => {
+    const resolution = await resolveCoinIds(client, ["BTC"]);
+
+    assert.equal(resolution.resolved.BTC, "bitcoin");
+  });
+
+  it("reports a shared ticker without a dominant coin as ambiguous", async () => {
+    const resolution = await resolveCoinIds(client, ["uni"]);
+
+    assert.equal(resolution.resolved.uni, undefined);
+    assert.deepEqual(resolution.ambiguous.uni.map((candidate) => candidate.id), ["uniswap", "universe-token"]);
+  });
+
+  it("passes queries missing from the coin list through as raw IDs", async () => {
+    const resolution = await resolveCoinIds(client, ["BTC", "NewCoin"]);
+
+    assert.deepEqual(resolution.resolved, { BTC: "bitcoin", NewCoin: "newcoin" });
+    assert.deepEqual(resolution.unlisted, ["NewCoin"]);
+    assert.deepEqual(resolution.not_found, []);
+  });
+
+  it("treats every query as an ID when the coin list is unavailable", async () => {
+    const offline = new CoinGeckoClient({ baseUrl: "http://127.0.0.1:9", rateLimitPerMinute: 0, maxRetries: 0 });
+
+    const resolution = await resolveCoinIds(offline, ["Bitcoin"]);
+
+    assert.deepEqual(resolution.resolved, { Bitcoin: "bitcoin" });
+    assert.deepEqual(resolution.unlisted, ["Bitcoin"]);
+  });
+
+  it("prices coins listed after the coin list was cached", async () => {
+    const { result } = await executeTool(
+      getToolDefinition("get_simple_price")!,
+      { ids: "BTC,newcoin,typo", vs_currencies: "usd" },
+      client
+    );
+
+    assert.deepEqual(Object.keys(result.data as object).sort(), ["bitcoin", "newcoin"]);
+    assert.deepEqual((result.resolution as { not_found: string[] }).not_found, ["typo"]);
+  });
+});
+
+describe("settleUnlisted", () => {
+  it("moves unlisted queries CoinGecko did not return to not_found", () => {
+    const resolution = settleUnlisted(
+      {
+        resolved: { BTC: "bitcoin", newcoin: "newcoin", typo: "typo" },
+        ambiguous: {},
+        unlisted: ["newcoin", "typo"],
+        not_found: [],
+      },
+      (id) => id === "bitcoin" || id === "newcoin"
+    );
+
+    assert.deepEqual(resolution.resolved, { BTC: "bitcoin", newcoin: "newcoin" });
+    assert.deepEqual(resolution.unlisted, ["newcoin"]);
+    assert.deepEqual(resolution.not_found, ["typo"]);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { MemoryCacheStore } from "../src/services/cache.store.js";
+import { CoinGeckoClient, type CoinGeckoClientOptions } from "../src/services/coingecko.client.js";
+import {
+  CoinGeckoNotFoundError,
+  CoinGeckoRateLimitError,
+  CoinGeckoTimeoutError,
+  CoinGeckoUpstreamError,
+} from "../src/services/coingecko.errors.js";
+import { startMockUpstream, type MockReply, type MockUpstream } from "./helpers/mockUpstream.js";
+
+describe("CoinGeckoClient", () => {
+  let upstream: MockUpstream;
+  let replies: MockReply[];
+
+  // Replies are consumed in order; the last one repeats
+  before(async () => {
+    upstream = await startMockUpstream(() => (replies.length > 1 ? replies.shift()! : replies[0]));
+  });
+  after(() => upstream.close());
+  beforeEach(() => {
+    upstream.requests.length = 0;
+    replies = [{ body: { ok: true } }];
+  });
+
+  const createClient = (options: CoinGeckoClientOptions = {}) =>
+    new CoinGeckoClient({
+      baseUrl: upstream.url,
+      apiKey: undefined,
+      rateLimitPerMinute: 0,
+      baseDelayMs: 1,
+      maxDelayMs: 5,
+      priceBatchWindowMs: 0,
+      ...options,
+    });
+
+  describe("retries", () => {
+    it("retries 5xx responses and returns the eventual success", async () => {
+      replies = [{ status: 503 }, { status: 502 }, { body: { bitcoin: 1 } }];
+
+      assert.deepEqual(await createClient().get("/ping"), { bitcoin: 1 });
+      assert.equal(upstream.requests.length, 3);
+    });
+
+    it("gives up after maxRetries with an upstream error", async () => {
+      replies = [{ status: 500 }];
+
+      await assert.rejects(createClient({ maxRetries: 2 }).get("/ping"), CoinGeckoUpstreamError);
+      assert.equal(upstream.requests.length, 3);
+    });
+
+    it("waits for Retry-After on 429", async () => {
+      replies = [{ status: 429, headers: { "retry-after": "0" } }, { body: { ok: true } }];
+
+      assert.deepEqual(await createClient().get("/ping"), { ok: true });
+      assert.equal(upstream.requests.length, 2);
+    });
+
+    it("fails fast when Retry-After is longer than maxRetryAfterMs", async () => {
+      replies = [{ status: 429, headers: { "retry-after": "120" } }];
+
+      const error = await createClient({ maxRetryAfterMs: 1000 }).get("/ping").catch((e) => e);
+      assert.ok(error instanceof CoinGeckoRateLimitError);
+      assert.equal(error.retryAfterSeconds, 120);
+      assert.equal(upstream.requests.length, 1);
+    });
+
+    it("does not retry 404", async () => {
+      replies = [{ status: 404 }];
+
+      await assert.rejects(createClient().get("/coins/nope"), CoinGeckoNotFoundError);
+      assert.equal(upstream.requests.length, 1);
+    });
+
+    it("times out a response whose body stops arriving", async () => {
+      replies = [{ stall: true }];
+
+      await assert.rejects(createClient({ timeoutMs: 50, maxRetries: 0 }).get("/ping"), CoinGeckoTimeoutError);
+    });
+  });
+
+  describe("cache", () => {
+    const cacheOptions = () => ({
+      cacheStore: new MemoryCacheStore({ maxEntries: 100, sweepIntervalMs: 60_000 }),
+      cacheTtls: [{ endpoint: "/global", ttlSeconds: 60 }],
+    });
+
+    it("serves repeated requests from the cache", async () => {
+      const client = createClient(cacheOptions());
+
+      const first = await client.getWithMeta("/global");
+      const second = await client.getWithMeta("/global");
+
+      assert.equal(first.status, "MISS");
+      assert.equal(second.status, "HIT");
+      assert.equal(second.storedAt, first.storedAt);
+      assert.equal(upstream.requests.length, 1);
+    });
+
+    it("shares entries between equivalent parameter lists", async () => {
+      const client = createClient({ ...cacheOptions(), cacheTtls: [{ endpoint: "/simple/price", ttlSeconds: 60 }] });
+
+      await client.get("/simple/price", { ids: "bitcoin,ethereum", vs_currencies: "usd" });
+      const again = await client.getWithMeta("/simple/price", { vs_currencies: "USD", ids: "ethereum, bitcoin" });
+
+      assert.equal(again.status, "HIT");
+      assert.equal(upstream.requests.length, 1);
+    });
+
+    it("bypasses the cache for endpoints without a TTL", async () => {
+      const client = createClient(cacheOptions());
+
+      assert.equal((await client.getWithMeta("/search/trending")).status, "BYPASS");
+      await client.get("/search/trending");
+      assert.equal(upstream.requests.length, 2);
+    });
+
+    it("does not cache failures", async () => {
+      replies = [{ status: 404 }, { body: { ok: true } }];
+      const client = createClient(cacheOptions());
+
+      await assert.rejects(client.get("/global"), CoinGeckoNotFoundError);
+      assert.deepEqual(await client.get("/global"), { ok: true });
+    });
+  });
+
+  it("coalesces concurrent identical requests", async () => {
+    const client = createClient();
+
+    const results = await Promise.all([client.get("/global"), client.get("/global"), client.get("/global")]);
+
+    assert.deepEqual(results, [{ ok: true }, { ok: true }, { ok: true }]);
+    assert.equal(upstream.requests.length, 1);
+  });
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { CoinGeckoClient } from "../src/services/coingecko.client.js";
+import { ToolArgumentError } from "../src/tools/errors.js";
+import { executeTool, getToolDefinition } from "../src/tools/index.js";
+import { startMockUpstream, type MockUpstream } from "./helpers/mockUpstream.js";
+
+interface MarketsResult {
+  data: Array<{ id: string }>;
+  pagination: { next_cursor: string | null; has_more: boolean };
+}
+
+// Ten coins ranked 1-10; each upstream page holds per_page of them
+const COINS = Array.from({ length: 10 }, (_, index) => ({
+  id: `coin-${index + 1}`,
+  symbol: `c${index + 1}`,
+  name: `Coin ${index + 1}`,
+  market_cap_rank: index + 1,
+  market_cap: 1000 - index * 100,
+  total_volume: index % 2 === 0 ? 50 : 5,
+}));
+
+describe("get_coins_markets pagination", () => {
+  let upstream: MockUpstream;
+  let client: CoinGeckoClient;
+
+  before(async () => {
+    upstream = await startMockUpstream(({ query }) => {
+      const perPage = Number(query.get("per_page"));
+      const page = Number(query.get("page"));
+      const rows = query.get("order") === "market_cap_asc" ? [...COINS].reverse() : COINS;
+      return { body: rows.slice((page - 1) * perPage, page * perPage) };
+    });
+    client = new CoinGeckoClient({ baseUrl: upstream.url, rateLimitPerMinute: 0 });
+  });
+  after(() => upstream.close());
+
+  const markets = async (args: Record<string, unknown>) =>
+    (await executeTool(getToolDefinition("get_coins_markets")!, args, client)).result as unknown as MarketsResult;
+
+  it("continues where the previous page stopped when filters drop rows", async () => {
+    const first = await markets({ per_page: 3, min_volume: 10 });
+    const second = await markets({ per_page: 3, min_volume: 10, cursor: first.pagination.next_cursor });
+
+    assert.deepEqual(first.data.map((coin) => coin.id), ["coin-1", "coin-3", "coin-5"]);
+    assert.deepEqual(second.data.map((coin) => coin.id), ["coin-7", "coin-9"]);
+    assert.equal(second.pagination.has_more, false);
+  });
+
+  it("rejects a cursor reused with a different query", async () => {
+    const first = await markets({ per_page: 3 });
+
+    for (const changed of [{ order: "market_cap_asc" }, { vs_currency: "eur" }, { category: "meme-token" }, { per_page: 4 }]) {
+      await assert.rejects(
+        markets({ per_page: 3, ...changed, cursor: first.pagination.next_cursor }),
+        (error: Error) => error instanceof ToolArgumentError && /different query/.test(error.message),
+        JSON.stringify(changed)
+      );
+    }
+  });
+
+  it("rejects a cursor that was not issued by the server", async () => {
+    await assert.rejects(markets({ cursor: "garbage" }), ToolArgumentError);
+  });
+});
@@ -0,0 +1,61 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  // Send the headers and part of the body, then never finish
+  stall?: boolean;
+}
+
+export interface MockRequest {
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface MockUpstream {
+  url: string;
+  requests: MockRequest[];
+  close(): Promise<void>;
+}
+
+// Local HTTP server standing in for CoinGecko or a webhook receiver
+export const startMockUpstream = async (
+  handle: (request: MockRequest) => MockReply | Promise<MockReply>
+): Promise<MockUpstream> => {
+  const requests: MockRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const request = { path: url.pathname, query: url.searchParams, headers: req.headers, body };
+      requests.push(request);
+
+      const reply = await handle(request);
+      res.writeHead(reply.status ?? 200, { "content-type": "application/json", ...reply.headers });
+      if (reply.stall) {
+        res.write("{");
+        return;
+      }
+      res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it, mock } from "node:test";
+import express from "express";
+import mcpRoutes from "../src/routes/mcp.routes.js";
+import { startMockUpstream, type MockUpstream } from "./helpers/mockUpstream.js";
+
+interface RpcReply {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+}
+
+const LIST_TOOLS = { jsonrpc: "2.0", id: 1, method: "tools/list" };
+const INITIALIZED = { jsonrpc: "2.0", method: "notifications/initialized" };
+
+describe("stateless JSON-RPC on POST /mcp", () => {
+  let upstream: MockUpstream;
+  let server: Server;
+  let endpoint: string;
+
+  before(async () => {
+    // The routes log every request; keep the test output readable
+    mock.method(console, "log", () => undefined);
+    upstream = await startMockUpstream(({ path }) =>
+      path === "/search/trending" ? { body: { coins: [], nfts: [], categories: [] } } : { status: 404 }
+    );
+    // The MCP server uses the shared client, which reads its settings on first use
+    process.env.COINGECKO_BASE_URL = upstream.url;
+
+    const app = express().use(express.json()).use("/mcp", mcpRoutes);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await upstream.close();
+    mock.restoreAll();
+  });
+
+  const post = async (body: unknown) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  };
+
+  it("answers a single request", async () => {
+    const { status, body } = await post(LIST_TOOLS);
+
+    assert.equal(status, 200);
+    assert.equal((body as RpcReply).id, 1);
+    assert.ok(((body as RpcReply).result!.tools as unknown[]).length > 0);
+  });
+
+  it("answers each request in a batch and skips notifications", async () => {
+    const { status, body } = await post([
+      LIST_TOOLS,
+      INITIALIZED,
+      { jsonrpc: "2.0", id: "prompts", method: "prompts/list" },
+      { id: 7, method: "tools/list" },
+    ]);
+
+    assert.equal(status, 200);
+    const replies = body as RpcReply[];
+    assert.deepEqual(replies.map((reply) => reply.id).sort(), [1, 7, "prompts"].sort());
+    assert.equal(replies.find((reply) => reply.id === 7)!.error!.code, -32600);
+    assert.ok(replies.find((reply) => reply.id === "prompts")!.result!.prompts);
+  });
+
+  it("runs tool calls in a batch", async () => {
+    const { body } = await post([
+      { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "get_trending_coins", arguments: {} } },
+      { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "no_such_tool", arguments: {} } },
+    ]);
+
+    const [called, unknown] = (body as RpcReply[]).sort((a, b) => Number(a.id) - Number(b.id));
+    assert.equal(called.result!.isError, undefined);
+    assert.deepEqual((called.result!.structuredContent as { data: unknown }).data, { coins: [], nfts: [], categories: [] });
+    assert.equal(unknown.error!.code, -32602);
+    assert.equal(upstream.requests.filter((request) => request.path === "/search/trending").length, 1);
+  });
+
+  it("rejects an empty batch", async () => {
+    const { status, body } = await post([]);
+
+    assert.equal(status, 400);
+    assert.equal((body as RpcReply).error!.code, -32600);
+  });
+
+  it("accepts notifications without a response body", async () => {
+    const single = await post(INITIALIZED);
+    const batch = await post([INITIALIZED, INITIALIZED]);
+
+    assert.deepEqual([single.status, single.body], [202, undefined]);
+    assert.deepEqual([batch.status, batch.body], [202, undefined]);
+  });
+
+  it("rejects a single invalid message with 400", async () => {
+    const { status, body } = await post({ jsonrpc: "1.0", id: 3, method: "tools/list" });
+
+    assert.equal(status, 400);
+    assert.equal((body as RpcReply).id, 3);
+    assert.equal((body as RpcReply).error!.code, -32600);
+  });
+
+  it("refuses subscriptions without a session", async () => {
+    const { status, body } = await post({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "resources/subscribe",
+      params: { uri: "coingecko://global" },
+    });
+
+    assert.equal(status, 200);
+    assert.equal((body as RpcReply).error!.code, -32600);
+    assert.match((body as RpcReply).error!.message, /requires an MCP session/);
+  });
+});
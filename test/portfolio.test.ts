@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { CoinGeckoClient } from "../src/services/coingecko.client.js";
+import { executeTool, getToolDefinition } from "../src/tools/index.js";
+import { startMockUpstream, type MockUpstream } from "./helpers/mockUpstream.js";
+
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+
+interface PortfolioResult {
+  positions: Array<{ key: string; quantity: number; values: Record<string, number>; allocation_percentage: number }>;
+  totals: Record<string, { value: number; value_change_24h: number; change_percentage_24h: number | null }>;
+  unpriced: Array<{ key: string }>;
+}
+
+describe("value_portfolio", () => {
+  let upstream: MockUpstream;
+  let client: CoinGeckoClient;
+
+  before(async () => {
+    upstream = await startMockUpstream(({ path }) => {
+      if (path === "/simple/price") {
+        return { body: { bitcoin: { usd: 100, usd_24h_change: 25, eur: 90, eur_24h_change: 20 } } };
+      }
+      if (path === "/simple/token_price/ethereum") {
+        return { body: { [USDC]: { usd: 1, usd_24h_change: 0, eur: 0.9 } } };
+      }
+      // Unknown asset platforms are a 404 upstream
+      return { status: 404 };
+    });
+    client = new CoinGeckoClient({ baseUrl: upstream.url, rateLimitPerMinute: 0, priceBatchWindowMs: 0 });
+  });
+  after(() => upstream.close());
+
+  const valuePortfolio = async (args: Record<string, unknown>) =>
+    (await executeTool(getToolDefinition("value_portfolio")!, args, client)).result.data as PortfolioResult;
+
+  it("values positions, totals and allocation in every currency", async () => {
+    const data = await valuePortfolio({
+      vs_currencies: "usd,eur",
+      holdings: [
+        { id: "bitcoin", quantity: 2 },
+        { chain: "ethereum", address: USDC.toUpperCase().replace("0X", "0x"), quantity: 100 },
+      ],
+    });
+
+    assert.deepEqual(data.positions.map((p) => [p.key, p.values.usd, p.allocation_percentage]), [
+      ["bitcoin", 200, 66.6667],
+      [`ethereum:${USDC}`, 100, 33.3333],
+    ]);
+    assert.equal(data.totals.usd.value, 300);
+    assert.equal(data.totals.eur.value, 270);
+  });
+
+  it("derives the 24h value change from each price change", async () => {
+    const data = await valuePortfolio({
+      holdings: [{ id: "bitcoin", quantity: 2 }, { chain: "ethereum", address: USDC, quantity: 100 }],
+    });
+
+    // Bitcoin is up 25%: worth 200 now, 160 a day ago
+    assert.equal(data.totals.usd.value_change_24h, 40);
+    assert.equal(data.totals.usd.change_percentage_24h, 15.3846);
+  });
+
+  it("merges repeated assets into one position", async () => {
+    const data = await valuePortfolio({
+      holdings: [{ id: "bitcoin", quantity: 1 }, { id: "Bitcoin", quantity: 1.5 }],
+    });
+
+    assert.equal(data.positions.length, 1);
+    assert.equal(data.positions[0].quantity, 2.5);
+    assert.equal(data.totals.usd.value, 250);
+  });
+
+  it("reports unknown coins and chains CoinGecko rejects as unpriced", async () => {
+    const data = await valuePortfolio({
+      holdings: [
+        { id: "bitcoin", quantity: 1 },
+        { id: "nope", quantity: 5 },
+        { chain: "eth", address: USDC, quantity: 5 },
+      ],
+    });
+
+    assert.deepEqual(data.unpriced.map((p) => p.key), ["nope", `eth:${USDC}`]);
+    assert.equal(data.totals.usd.value, 100);
+    assert.equal(data.positions[0].allocation_percentage, 100);
+  });
+});
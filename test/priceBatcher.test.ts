@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CoinGeckoParams } from "../src/services/coingecko.client.js";
+import { SimplePriceBatcher } from "../src/services/priceBatcher.js";
+
+type Prices = Record<string, Record<string, number>>;
+
+// Fake upstream that prices every requested id at its position in the request
+const createBatcher = (options = { windowMs: 10, maxIds: 100 }) => {
+  const calls: CoinGeckoParams[] = [];
+  const batcher = new SimplePriceBatcher(async (params) => {
+    calls.push(params);
+    const ids = params.ids!.split(",");
+    return Object.fromEntries(ids.map((id, index) => [id, { usd: index + 1 }])) as Prices;
+  }, options);
+  return { batcher, calls };
+};
+
+describe("SimplePriceBatcher", () => {
+  it("merges concurrent lookups into one request and hands each caller its own coins", async () => {
+    const { batcher, calls } = createBatcher();
+
+    const [first, second] = await Promise.all([
+      batcher.fetch({ ids: "bitcoin", vs_currencies: "usd" }),
+      batcher.fetch({ ids: "ethereum,solana", vs_currencies: "usd" }),
+    ]);
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].ids, "bitcoin,ethereum,solana");
+    assert.deepEqual(Object.keys(first), ["bitcoin"]);
+    assert.deepEqual(Object.keys(second).sort(), ["ethereum", "solana"]);
+  });
+
+  it("keeps lookups with different parameters in separate requests", async () => {
+    const { batcher, calls } = createBatcher();
+
+    await Promise.all([
+      batcher.fetch({ ids: "bitcoin", vs_currencies: "usd" }),
+      batcher.fetch({ ids: "bitcoin", vs_currencies: "eur" }),
+    ]);
+
+    assert.deepEqual(calls.map((call) => call.vs_currencies).sort(), ["eur", "usd"]);
+  });
+
+  it("sends a batch early once it would exceed maxIds", async () => {
+    const { batcher, calls } = createBatcher({ windowMs: 10, maxIds: 2 });
+
+    await Promise.all([
+      batcher.fetch({ ids: "a,b", vs_currencies: "usd" }),
+      batcher.fetch({ ids: "c", vs_currencies: "usd" }),
+    ]);
+
+    assert.deepEqual(calls.map((call) => call.ids), ["a,b", "c"]);
+  });
+
+  it("omits coins the upstream did not return", async () => {
+    const batcher = new SimplePriceBatcher(async () => ({ bitcoin: { usd: 1 } }), { windowMs: 10, maxIds: 100 });
+
+    assert.deepEqual(await batcher.fetch({ ids: "bitcoin,unknown", vs_currencies: "usd" }), { bitcoin: { usd: 1 } });
+  });
+
+  it("rejects every caller in a batch when the request fails", async () => {
+    const batcher = new SimplePriceBatcher(async () => {
+      throw new Error("upstream down");
+    }, { windowMs: 10, maxIds: 100 });
+
+    const results = await Promise.allSettled([
+      batcher.fetch({ ids: "bitcoin", vs_currencies: "usd" }),
+      batcher.fetch({ ids: "ethereum", vs_currencies: "usd" }),
+    ]);
+
+    assert.deepEqual(results.map((result) => result.status), ["rejected", "rejected"]);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { ResourcePoller } from "../src/services/resourcePoller.js";
+
+const INTERVAL_MS = 60_000;
+
+// Lets the read started by subscribe() settle
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("ResourcePoller", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date", "setInterval"] });
+    // Failed reads are logged on every attempt
+    mock.method(console, "warn", () => undefined);
+  });
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it("notifies listeners only when the content changes", async () => {
+    const poller = new ResourcePoller({ intervalMs: INTERVAL_MS, maxWatches: 10 });
+    let content = '{"price":1,"timestamp":"a"}';
+    const notified: string[] = [];
+    const unsubscribe = poller.subscribe("coingecko://price/bitcoin", async () => content, (uri) => notified.push(uri));
+    await flush();
+
+    await poller.poll();
+    content = '{"price":1,"timestamp":"b"}';
+    await poller.poll();
+    content = '{"price":2,"timestamp":"c"}';
+    await poller.poll();
+
+    assert.deepEqual(notified, ["coingecko://price/bitcoin"]);
+    unsubscribe();
+    assert.equal(poller.size, 0);
+  });
+
+  it("caps the number of distinct watched resources", () => {
+    const poller = new ResourcePoller({ intervalMs: INTERVAL_MS, maxWatches: 1 });
+    const unsubscribe = poller.subscribe("coingecko://price/bitcoin", async () => "", () => undefined);
+
+    assert.equal(poller.hasRoomFor("coingecko://price/bitcoin"), true);
+    assert.equal(poller.hasRoomFor("coingecko://price/ethereum"), false);
+    unsubscribe();
+    assert.equal(poller.hasRoomFor("coingecko://price/ethereum"), true);
+  });
+
+  it("reads a failing resource less and less often", async () => {
+    const poller = new ResourcePoller({ intervalMs: INTERVAL_MS, maxWatches: 10 });
+    let reads = 0;
+    poller.subscribe("coingecko://coin/gone", async () => {
+      reads++;
+      throw new Error("not found");
+    }, () => undefined);
+    // Subscribing reads the resource once straight away
+    await flush();
+    assert.equal(reads, 1);
+
+    const readsPerTick: number[] = [];
+    for (let tick = 0; tick < 6; tick++) {
+      const before = reads;
+      mock.timers.tick(INTERVAL_MS);
+      await poller.poll();
+      readsPerTick.push(reads - before);
+    }
+
+    // Waits one interval, then two, then four
+    assert.deepEqual(readsPerTick, [1, 0, 1, 0, 0, 0]);
+  });
+});
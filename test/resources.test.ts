@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { MCPServer } from "../src/server.js";
+import { InProcessTransport } from "../src/services/inProcessTransport.js";
+import { startMockUpstream, type MockUpstream } from "./helpers/mockUpstream.js";
+
+interface RpcReply {
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+}
+
+describe("resource subscriptions", () => {
+  let upstream: MockUpstream;
+  let mcpServer: MCPServer;
+  let transport: InProcessTransport;
+  let nextId = 0;
+
+  before(async () => {
+    mock.method(console, "log", () => undefined);
+    upstream = await startMockUpstream(({ path }) =>
+      path === "/simple/price" ? { body: { bitcoin: { usd: 100 } } } : { status: 404 }
+    );
+    // The MCP server uses the shared client, which reads its settings on first use
+    process.env.COINGECKO_BASE_URL = upstream.url;
+
+    mcpServer = new MCPServer();
+    transport = new InProcessTransport();
+    await mcpServer.getServer().connect(transport);
+  });
+  after(async () => {
+    await mcpServer.getServer().close();
+    await upstream.close();
+    mock.restoreAll();
+  });
+
+  const subscribe = async (uri: string) =>
+    (await transport.dispatch({
+      jsonrpc: "2.0",
+      id: ++nextId,
+      method: "resources/subscribe",
+      params: { uri },
+    } as JSONRPCMessage)) as RpcReply;
+
+  it("subscribes to a resource that can be read", async () => {
+    const reply = await subscribe("coingecko://price/bitcoin");
+
+    assert.deepEqual(reply.result, {});
+  });
+
+  it("rejects URIs that match no resource or template", async () => {
+    const reply = await subscribe("coingecko://nothing/here");
+
+    assert.equal(reply.error!.code, -32602);
+    assert.match(reply.error!.message, /Unknown resource/);
+  });
+
+  it("rejects template URIs whose first read fails", async () => {
+    const requestsBefore = upstream.requests.length;
+
+    const reply = await subscribe("coingecko://coin/no-such-coin/chart/7");
+
+    assert.equal(reply.error!.code, -32602);
+    assert.match(reply.error!.message, /Cannot subscribe/);
+    assert.equal(upstream.requests.length, requestsBefore + 1);
+  });
+});
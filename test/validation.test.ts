@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getToolDefinition } from "../src/tools/index.js";
+import { ToolValidationError, validateToolArgs } from "../src/tools/validation.js";
+
+const validate = (tool: string, args: Record<string, unknown>) =>
+  validateToolArgs(getToolDefinition(tool)!.inputSchema, args);
+
+const fieldErrors = (tool: string, args: Record<string, unknown>) => {
+  try {
+    validate(tool, args);
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof ToolValidationError);
+    return error.errors.map((e) => e.field);
+  }
+};
+
+describe("validateToolArgs", () => {
+  it("accepts CoinGecko precision values in every tool that takes one", () => {
+    for (const tool of ["get_simple_price", "get_market_chart", "get_ohlc"]) {
+      for (const precision of ["0", "18", "full", 2]) {
+        assert.deepEqual(fieldErrors(tool, { ids: "bitcoin", vs_currencies: "usd", id: "bitcoin", days: "7", precision }), [], `${tool} ${precision}`);
+      }
+    }
+  });
+
+  it("rejects malformed precision values per field", () => {
+    for (const tool of ["get_simple_price", "get_market_chart", "get_ohlc"]) {
+      for (const precision of ["abc", "19", "-1", "1.5"]) {
+        assert.deepEqual(fieldErrors(tool, { ids: "bitcoin", vs_currencies: "usd", id: "bitcoin", days: "7", precision }), ["precision"], `${tool} ${precision}`);
+      }
+    }
+  });
+
+  it("accepts a whole number of days or max for market charts", () => {
+    assert.deepEqual(fieldErrors("get_market_chart", { id: "bitcoin", days: 30 }), []);
+    assert.deepEqual(fieldErrors("get_market_chart", { id: "bitcoin", days: "max" }), []);
+    assert.deepEqual(fieldErrors("get_market_chart", { id: "bitcoin", days: "0" }), ["days"]);
+    assert.deepEqual(fieldErrors("get_market_chart", { id: "bitcoin", days: "week" }), ["days"]);
+  });
+
+  it("coerces query-string values to their declared types", () => {
+    assert.deepEqual(validate("get_simple_price", { ids: ["bitcoin", "ethereum"], vs_currencies: "usd", include_market_cap: "true", precision: 4 }), {
+      ids: "bitcoin,ethereum",
+      vs_currencies: "usd",
+      include_market_cap: true,
+      precision: "4",
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  WebhookTargetError,
+  checkWebhookUrl,
+  deliverWebhook,
+  isPrivateAddress,
+  signWebhook,
+  type WebhookOptions,
+} from "../src/services/webhook.js";
+import { startMockUpstream, type MockReply, type MockUpstream } from "./helpers/mockUpstream.js";
+
+const SECRET = "test-secret";
+
+// The mock receiver listens on loopback, which only local development allows
+const OPTIONS: WebhookOptions = { timeoutMs: 1000, maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5, allowPrivateNetworks: true };
+
+describe("signWebhook", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", SECRET).update('1700000000.{"a":1}').digest("hex");
+
+    assert.equal(signWebhook(SECRET, "1700000000", '{"a":1}'), `sha256=${expected}`);
+  });
+
+  it("changes when the timestamp or body changes", () => {
+    const signature = signWebhook(SECRET, "1700000000", "{}");
+
+    assert.notEqual(signWebhook(SECRET, "1700000001", "{}"), signature);
+    assert.notEqual(signWebhook(SECRET, "1700000000", '{"a":1}'), signature);
+    assert.notEqual(signWebhook("other", "1700000000", "{}"), signature);
+  });
+});
+
+describe("deliverWebhook", () => {
+  let receiver: MockUpstream;
+  let replies: MockReply[];
+
+  before(async () => {
+    receiver = await startMockUpstream(() => (replies.length > 1 ? replies.shift()! : replies[0]));
+  });
+  after(() => receiver.close());
+  beforeEach(() => {
+    receiver.requests.length = 0;
+    replies = [{ status: 200 }];
+  });
+
+  it("posts the payload with a signature the receiver can verify", async () => {
+    const result = await deliverWebhook(`${receiver.url}/hook`, { alert: "fired" }, SECRET, OPTIONS);
+
+    assert.deepEqual(result, { delivered: true, attempts: 1, status: 200 });
+    const [request] = receiver.requests;
+    assert.equal(request.body, '{"alert":"fired"}');
+    assert.equal(
+      request.headers["x-signature"],
+      signWebhook(SECRET, String(request.headers["x-signature-timestamp"]), request.body)
+    );
+  });
+
+  it("retries 5xx and 429 responses", async () => {
+    replies = [{ status: 503 }, { status: 429 }, { status: 204 }];
+
+    const result = await deliverWebhook(receiver.url, {}, SECRET, OPTIONS);
+
+    assert.deepEqual(result, { delivered: true, attempts: 3, status: 204 });
+  });
+
+  it("does not retry other client errors", async () => {
+    replies = [{ status: 410 }];
+
+    const result = await deliverWebhook(receiver.url, {}, SECRET, OPTIONS);
+
+    assert.deepEqual(result, { delivered: false, attempts: 1, status: 410 });
+  });
+
+  it("does not follow redirects", async () => {
+    replies = [{ status: 302, headers: { location: "http://169.254.169.254/latest/meta-data" } }];
+
+    const result = await deliverWebhook(receiver.url, {}, SECRET, OPTIONS);
+
+    assert.deepEqual(result, { delivered: false, attempts: 1, status: 302 });
+    assert.equal(receiver.requests.length, 1);
+  });
+
+  it("refuses private targets without contacting them", async () => {
+    const result = await deliverWebhook(receiver.url, {}, SECRET, { ...OPTIONS, allowPrivateNetworks: false });
+
+    assert.deepEqual(result, { delivered: false, attempts: 1, status: null });
+    assert.equal(receiver.requests.length, 0);
+  });
+});
+
+describe("webhook targets", () => {
+  it("classifies loopback, private, link-local and mapped addresses as private", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ["8.8.8.8", "172.32.0.1", "::ffff:8.8.8.8", "2606:4700:4700::1111"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it("rejects URLs that point at private hosts", async () => {
+    for (const url of ["http://localhost/hook", "http://169.254.169.254/", "http://[::1]/", "http://0x7f000001/"]) {
+      await assert.rejects(checkWebhookUrl(url), WebhookTargetError, url);
+    }
+  });
+
+  it("rejects URLs that are not http or https", async () => {
+    await assert.rejects(checkWebhookUrl("ftp://93.184.216.34/"), WebhookTargetError);
+    await assert.rejects(checkWebhookUrl("not a url"), WebhookTargetError);
+  });
+
+  it("accepts public IP literals without a DNS lookup", async () => {
+    assert.equal((await checkWebhookUrl("https://93.184.216.34/hook")).hostname, "93.184.216.34");
+  });
+});